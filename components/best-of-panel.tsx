@@ -0,0 +1,49 @@
+import React from 'react';
+import { Button } from './ui/button';
+import type { BestOf } from './wheel-context';
+import { tallySpins } from '@/lib/tally';
+
+export default function BestOfPanel({ bestOf, isSpinning, onEnd }: {
+  bestOf: BestOf;
+  isSpinning: boolean;
+  onEnd: () => void;
+}) {
+  const { status, total, spins, tied, winner } = bestOf;
+  const tally = tallySpins(spins);
+
+  let headline: string;
+  if (status === 'done' && winner) headline = `${winner.label} wins`;
+  else if (tied) headline = `Tie-breaker between ${tied.map(s => s.label).join(', ')}`;
+  else headline = `Spin ${Math.min(spins.length + (isSpinning ? 1 : 0), total)} of ${total}`;
+
+  return (
+    <div className="w-64 rounded-xl border bg-card text-card-foreground shadow-sm p-4 flex flex-col gap-3">
+      <div className="flex items-start gap-2">
+        <div className="flex min-w-0 flex-1 flex-col">
+          <span className="text-xs uppercase tracking-wide text-muted-foreground">Best of {total}</span>
+          <span className="font-semibold break-words" role="status" aria-live="polite">{headline}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onEnd} disabled={isSpinning}>{status === 'done' ? 'Done' : 'Stop'}</Button>
+      </div>
+
+      {tally.length > 0 && (
+        <table className="w-full text-sm">
+          <caption className="sr-only">Tally</caption>
+          <tbody>
+            {tally.map(({ slice, count }) => (
+              <tr key={slice.id} className={winner && winner.id !== slice.id ? 'text-muted-foreground' : ''}>
+                <td className="py-0.5 pr-2">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span className="inline-block h-3 w-3 shrink-0 rounded-sm border" style={{ background: slice.color }} aria-hidden />
+                    <span className="truncate">{slice.label}</span>
+                  </span>
+                </td>
+                <td className="py-0.5 text-right tabular-nums font-medium">{count}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { useWheel } from './wheel-context';
+import { looksLikeCSV, parseSliceCSV, parseTitleList, planImport, type ImportAction } from '@/lib/slice-import';
+
+const ACTION_STYLES: Record<ImportAction['kind'], string> = {
+  add: 'text-primary',
+  merge: 'text-chart-4',
+  skip: 'text-muted-foreground',
+};
+
+function describe(a: ImportAction) {
+  if (a.kind === 'add') return 'Add';
+  if (a.kind === 'merge') return `Merge into “${a.target.label}”`;
+  return a.reason;
+}
+
+// Rows that were matched to a slice already on the wheel; the user may still add them separately.
+function matchesExisting(a: ImportAction) {
+  return a.kind === 'merge' || (a.kind === 'skip' && Boolean(a.target));
+}
+
+export default function BulkAddDialog({ open, onClose }: { open: boolean; onClose: () => void; }) {
+  const { slices, applyImport, isSpinning } = useWheel();
+  const dialogRef = useRef<HTMLDialogElement | null>(null);
+  const [text, setText] = useState('');
+  // Rows (by index) the user chose to add even though they match an existing slice.
+  const [forced, setForced] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    const d = dialogRef.current;
+    if (!d) return;
+    if (open && !d.open) d.showModal();
+    if (!open && d.open) d.close();
+  }, [open]);
+
+  // Pasted titles or a CSV with a header row, turned into the add/merge/skip preview.
+  const { suggested, error } = useMemo(() => {
+    try {
+      const incoming = looksLikeCSV(text) ? parseSliceCSV(text) : parseTitleList(text);
+      return { suggested: planImport(slices, incoming), error: null };
+    } catch (e) {
+      return { suggested: [] as ImportAction[], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [text, slices]);
+
+  const plan = suggested.map((a, i): ImportAction => (forced.has(i) ? { kind: 'add', incoming: a.incoming } : a));
+
+  function toggleForced(i: number) {
+    setForced(prev => {
+      const next = new Set(prev);
+      if (next.has(i)) next.delete(i);
+      else next.add(i);
+      return next;
+    });
+  }
+
+  function changeText(value: string) {
+    setText(value);
+    setForced(new Set());
+  }
+
+  const counts = plan.reduce((acc, a) => ({ ...acc, [a.kind]: acc[a.kind] + 1 }), { add: 0, merge: 0, skip: 0 });
+
+  function close() {
+    changeText('');
+    onClose();
+  }
+
+  function confirm() {
+    applyImport(plan);
+    close();
+  }
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClose={close}
+      className="m-auto w-[min(92vw,560px)] rounded-xl border bg-card p-6 text-card-foreground shadow-lg backdrop:bg-black/50"
+    >
+      <div className="flex flex-col gap-4">
+        <h2 className="font-semibold leading-none">Bulk add movies</h2>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="bulk-add-text">Paste one title per line, or a CSV with label, color, weight and notes columns</Label>
+          <Textarea
+            id="bulk-add-text"
+            value={text}
+            onChange={e => changeText(e.target.value)}
+            placeholder={'Alien\nThe Thing\nPaddington 2'}
+            className="max-h-48 font-mono text-sm"
+          />
+          <label className="inline-flex items-center gap-2 text-sm cursor-pointer">
+            <Button variant="secondary" size="sm" asChild><span>Load CSV file</span></Button>
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={e => {
+              const f = e.target.files?.[0];
+              if (f) f.text().then(changeText);
+              e.target.value = '';
+            }} />
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+
+        {plan.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <p className="text-sm text-muted-foreground" aria-live="polite">
+              {counts.add} to add · {counts.merge} to merge · {counts.skip} skipped
+            </p>
+            <ul className="max-h-56 overflow-auto space-y-1 pr-1 text-sm">
+              {plan.map((a, i) => (
+                <li key={i} className="flex items-center gap-2">
+                  <span
+                    className="inline-block h-3 w-3 rounded-sm border"
+                    style={{ background: a.incoming.color ?? (a.kind === 'merge' ? a.target.color : 'transparent') }}
+                    aria-hidden
+                  />
+                  <span className={`flex-1 truncate ${a.kind === 'skip' ? 'text-muted-foreground' : ''}`}>{a.incoming.label || '(blank)'}</span>
+                  <span className={`text-xs ${ACTION_STYLES[a.kind]}`}>{describe(a)}</span>
+                  {matchesExisting(suggested[i]) && (
+                    <Button variant="link" size="sm" className="h-auto px-0 text-xs" onClick={() => toggleForced(i)}>
+                      {forced.has(i) ? 'Undo' : 'Add anyway'}
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={close}>Cancel</Button>
+          <Button onClick={confirm} disabled={isSpinning || counts.add + counts.merge === 0}>
+            Add {counts.add + counts.merge || ''}
+          </Button>
+        </div>
+      </div>
+    </dialog>
+  );
+}
@@ -1,22 +1,45 @@
 "use client";
 
 import React from 'react';
+import Image from 'next/image';
+import { ChevronDown, GripVertical, Play, X } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
 import { Label } from './ui/label';
 import { Slider } from './ui/slider';
 import { Checkbox } from './ui/checkbox';
-import { useWheel } from './wheel-context';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { useWheel, type ImportStatus, type SliceUpdate } from './wheel-context';
+import BulkAddDialog from './bulk-add-dialog';
+import { parseGenres, type MovieMeta, type Slice } from '@/lib/slices';
+import { readImageDataURL, readImageFile } from '@/lib/images';
+import { parseColors, type Palette } from '@/lib/palettes';
+import { patternBackground, patternFor, setPatternsEnabled, usePatterns, type PatternKind } from '@/lib/patterns';
+import { SOUND_PACKS, SOUND_PACK_IDS, readAudioFile, type CustomSounds, type SoundKind, type SoundPackId } from '@/lib/sound-packs';
+import { setMotionPreference, useMotionPreference, type MotionPreference } from '@/lib/motion';
+import { EMPTY_FILTER, filterOptions, type SliceFilter } from '@/lib/slice-filter';
+import { LABEL_STYLES, type LabelStyle } from '@/lib/wheel-labels';
+import { PROFILE_KINDS, SPIN_PROFILES, type SpinProfileSettings } from '@/lib/spin-profiles';
+import { cleanParticipants, vetoesLeft, type VetoSettings, type VetoUsage } from '@/lib/veto';
+import type { TitleMatch } from '@/lib/titles';
+import type { SavedWheel, SpinRecord } from '@/lib/wheel-storage';
 
-type Slice = { id: string; label: string; color: string; };
-
-function AddMovieForm({ newLabel, setNewLabel, newColor, setNewColor, addSlice, disabled }: {
+function AddMovieForm({ newLabel, setNewLabel, newColor, setNewColor, addSlice, match, mergeNewLabel, onBulkAdd, disabled }: {
   newLabel: string;
   setNewLabel: (s: string) => void;
   newColor: string;
   setNewColor: (s: string) => void;
-  addSlice: () => void;
+  addSlice: (options?: { allowDuplicate?: boolean }) => void;
+  match: TitleMatch | null;
+  mergeNewLabel: () => void;
+  onBulkAdd: () => void;
   disabled: boolean;
 }) {
   return (
@@ -46,20 +69,85 @@ function AddMovieForm({ newLabel, setNewLabel, newColor, setNewColor, addSlice,
             onKeyDown={(e: React.KeyboardEvent) => { if (e.key === 'Enter') addSlice(); }}
             placeholder="Movie title"
             disabled={disabled}
+            aria-invalid={match ? true : undefined}
+            aria-describedby={match ? 'new-slice-duplicate' : undefined}
           />
 
-          <Button onClick={addSlice} disabled={disabled}>Add</Button>
+          <Button onClick={() => addSlice()} disabled={disabled || Boolean(match)}>Add</Button>
         </div>
+        {match && (
+          <div id="new-slice-duplicate" role="status" className="mt-3 rounded-md border p-3 text-sm">
+            <p className="flex items-center gap-2">
+              <span className="inline-block h-3 w-3 shrink-0 rounded-sm" style={{ background: match.slice.color }} aria-hidden />
+              <span>
+                {match.exact ? 'Already on the wheel as ' : 'Looks like '}
+                <span className="font-semibold">{match.slice.label}</span>.
+              </span>
+            </p>
+            <div className="mt-2 flex gap-2">
+              <Button size="sm" onClick={mergeNewLabel} disabled={disabled}>Merge (+1 weight)</Button>
+              <Button size="sm" variant="ghost" onClick={() => addSlice({ allowDuplicate: true })} disabled={disabled}>Add anyway</Button>
+            </div>
+          </div>
+        )}
+        <Button variant="link" className="mt-2 h-auto px-0" onClick={onBulkAdd} disabled={disabled}>Bulk add or import CSV…</Button>
       </CardContent>
     </Card>
   );
 }
 
-function WheelSettings({ radius, spinSecs, setRadius, setSpinSecs, removalMode, setRemovalMode, disabled }: {
+function SpinProfilePicker({ spinProfile, setSpinProfile }: {
+  spinProfile: SpinProfileSettings;
+  setSpinProfile: (p: SpinProfileSettings) => void;
+}) {
+  const { kind } = spinProfile;
+  const profile = SPIN_PROFILES[kind];
+  const params = spinProfile[kind] as Record<string, number>;
+
+  function setParam(key: string, value: number) {
+    setSpinProfile({ ...spinProfile, [kind]: { ...params, [key]: value } });
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Label>Spin style</Label>
+      <div className="flex flex-wrap gap-1" role="group" aria-label="Spin style">
+        {PROFILE_KINDS.map(k => (
+          <Button key={k} size="sm" className="h-7 px-2" variant={k === kind ? 'default' : 'outline'} aria-pressed={k === kind} onClick={() => setSpinProfile({ ...spinProfile, kind: k })}>
+            {SPIN_PROFILES[k].label}
+          </Button>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">{profile.description}</p>
+
+      <Label>Turns: {spinProfile.turns}–{spinProfile.turns + 2}</Label>
+      <Slider value={[spinProfile.turns]} min={2} max={10} onValueChange={(v: number[] | undefined) => setSpinProfile({ ...spinProfile, turns: v ? v[0] : spinProfile.turns })} />
+
+      {profile.params.map(p => (
+        <React.Fragment key={p.key}>
+          <Label>{p.label}: {p.format(params[p.key])}</Label>
+          <Slider value={[params[p.key]]} min={p.min} max={p.max} step={p.step} onValueChange={(v: number[] | undefined) => setParam(p.key, v ? v[0] : params[p.key])} />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
+
+const LABEL_STYLE_NAMES: Record<LabelStyle, string> = { straight: 'Straight', curved: 'Curved' };
+
+function WheelSettings({ radius, spinSecs, setRadius, setSpinSecs, labelStyle, setLabelStyle, spinProfile, setSpinProfile, roundPauseSecs, setRoundPauseSecs, bestOfSpins, setBestOfSpins, removalMode, setRemovalMode, disabled }: {
   radius: number;
   spinSecs: number;
   setRadius: (n: number) => void;
   setSpinSecs: (n: number) => void;
+  labelStyle: LabelStyle;
+  setLabelStyle: (s: LabelStyle) => void;
+  spinProfile: SpinProfileSettings;
+  setSpinProfile: (p: SpinProfileSettings) => void;
+  roundPauseSecs: number;
+  setRoundPauseSecs: (n: number) => void;
+  bestOfSpins: number;
+  setBestOfSpins: (n: number) => void;
   removalMode: boolean;
   setRemovalMode: (b: boolean) => void;
   disabled: boolean;
@@ -77,6 +165,28 @@ function WheelSettings({ radius, spinSecs, setRadius, setSpinSecs, removalMode,
         <Label>Spin duration: {spinSecs}s</Label>
         <Slider value={[spinSecs]} min={2} max={12} onValueChange={(v: number[] | undefined) => setSpinSecs(v ? v[0] : spinSecs)} />
 
+        <div className="mt-3" />
+        <Label>Labels</Label>
+        <div className="mt-1 flex flex-wrap gap-1" role="group" aria-label="Label style">
+          {LABEL_STYLES.map(l => (
+            <Button key={l} size="sm" className="h-7 px-2" variant={l === labelStyle ? 'default' : 'outline'} aria-pressed={l === labelStyle} onClick={() => setLabelStyle(l)}>
+              {LABEL_STYLE_NAMES[l]}
+            </Button>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground">Labels shrink to fit their slice. Slices too thin for a title show their number from the wheel list.</p>
+
+        <div className="mt-3" />
+        <SpinProfilePicker spinProfile={spinProfile} setSpinProfile={setSpinProfile} />
+
+        <div className="mt-3" />
+        <Label>Best-of spins: {bestOfSpins}</Label>
+        <Slider value={[bestOfSpins]} min={2} max={15} onValueChange={(v: number[] | undefined) => setBestOfSpins(v ? v[0] : bestOfSpins)} />
+
+        <div className="mt-3" />
+        <Label>Pause between rounds: {roundPauseSecs}s</Label>
+        <Slider value={[roundPauseSecs]} min={0} max={10} step={0.5} onValueChange={(v: number[] | undefined) => setRoundPauseSecs(v ? v[0] : roundPauseSecs)} />
+
         <div className="mt-3 inline-flex items-center gap-2">
           <Checkbox checked={removalMode} onCheckedChange={(c: boolean | "indeterminate" | undefined) => setRemovalMode(Boolean(c))} />
           <Label>Remove the winner after a spin</Label>
@@ -86,7 +196,442 @@ function WheelSettings({ radius, spinSecs, setRadius, setSpinSecs, removalMode,
   );
 }
 
-function SliceList({ slices, removeSlice, isSpinning }: { slices: Slice[]; removeSlice: (id: string) => void; isSpinning: boolean; }) {
+// Toggle `value` in a list, comparing case-insensitively.
+function toggleIn(list: string[], value: string) {
+  const has = list.some(v => v.toLowerCase() === value.toLowerCase());
+  return has ? list.filter(v => v.toLowerCase() !== value.toLowerCase()) : [...list, value];
+}
+
+function SpinFilter({ slices, filter, setFilter, eligibleCount, disabled }: {
+  slices: Slice[];
+  filter: SliceFilter;
+  setFilter: (f: SliceFilter) => void;
+  eligibleCount: number;
+  disabled: boolean;
+}) {
+  const { genres, people } = React.useMemo(() => filterOptions(slices), [slices]);
+  const isOn = (list: string[], v: string) => list.some(x => x.toLowerCase() === v.toLowerCase());
+
+  return (
+    <Card className={disabled ? "opacity-50 cursor-not-allowed pointer-events-none" : ""}>
+      <CardHeader>
+        <CardTitle>Filter</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="filter-runtime" className="whitespace-nowrap">Shorter than</Label>
+            <Input
+              id="filter-runtime"
+              className="h-8 w-20 px-2"
+              inputMode="numeric"
+              placeholder="any"
+              value={filter.maxRuntime?.toString() ?? ''}
+              onChange={e => {
+                const n = parseInt(e.target.value, 10);
+                setFilter({ ...filter, maxRuntime: n > 0 ? n : null });
+              }}
+            />
+            <span className="text-sm text-muted-foreground">minutes</span>
+          </div>
+
+          {genres.length > 0 && (
+            <div>
+              <Label className="mb-1">Genres</Label>
+              <div className="flex flex-wrap gap-1">
+                {genres.map(g => (
+                  <Button key={g} size="sm" className="h-7 px-2" variant={isOn(filter.genres, g) ? 'default' : 'outline'} aria-pressed={isOn(filter.genres, g)} onClick={() => setFilter({ ...filter, genres: toggleIn(filter.genres, g) })}>
+                    {g}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {people.length > 0 && (
+            <div>
+              <Label className="mb-1">Skip picks from</Label>
+              <div className="flex flex-wrap gap-1">
+                {people.map(p => (
+                  <Button key={p} size="sm" className="h-7 px-2" variant={isOn(filter.excludeSuggestedBy, p) ? 'default' : 'outline'} aria-pressed={isOn(filter.excludeSuggestedBy, p)} onClick={() => setFilter({ ...filter, excludeSuggestedBy: toggleIn(filter.excludeSuggestedBy, p) })}>
+                    {p}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="inline-flex items-center gap-2">
+            <Checkbox id="filter-hide" checked={filter.hideExcluded} onCheckedChange={(c: boolean | 'indeterminate' | undefined) => setFilter({ ...filter, hideExcluded: Boolean(c) })} />
+            <Label htmlFor="filter-hide">Hide movies that don&apos;t match</Label>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground" aria-live="polite">{eligibleCount} of {slices.length} eligible</p>
+            <Button variant="ghost" size="sm" onClick={() => setFilter(EMPTY_FILTER)}>Clear</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function VetoSettingsCard({ veto, setVeto, vetoesUsed, resetVetoes, disabled }: {
+  veto: VetoSettings;
+  setVeto: (v: VetoSettings) => void;
+  vetoesUsed: VetoUsage;
+  resetVetoes: () => void;
+  disabled: boolean;
+}) {
+  const [name, setName] = React.useState('');
+
+  function addParticipant() {
+    const participants = cleanParticipants([...veto.participants, name]);
+    if (participants.length === veto.participants.length) return;
+    setVeto({ ...veto, participants });
+    setName('');
+  }
+
+  return (
+    <Card className={disabled ? "opacity-50 cursor-not-allowed pointer-events-none" : ""}>
+      <CardHeader>
+        <CardTitle>Vetoes</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-3">
+          <div className="inline-flex items-center gap-2">
+            <Checkbox id="veto-enabled" checked={veto.enabled} onCheckedChange={(c: boolean | 'indeterminate' | undefined) => setVeto({ ...veto, enabled: Boolean(c) })} />
+            <Label htmlFor="veto-enabled">Offer a veto after each spin</Label>
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              aria-label="Participant name"
+              placeholder="Add a person"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') addParticipant(); }}
+            />
+            <Button variant="secondary" onClick={addParticipant} disabled={!name.trim()}>Add</Button>
+          </div>
+
+          {veto.participants.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {veto.participants.map(p => (
+                <li key={p} className="flex items-center gap-2">
+                  <span className="flex-1 truncate">{p}</span>
+                  <span className="text-muted-foreground tabular-nums">
+                    {vetoesUsed[p] ?? 0} used · {vetoesLeft(veto, vetoesUsed, p)} left
+                  </span>
+                  <Button variant="ghost" size="icon" className="size-7" onClick={() => setVeto({ ...veto, participants: veto.participants.filter(x => x !== p) })} aria-label={`Remove ${p}`} title="Remove">
+                    <X />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div>
+            <Label>Vetoes each: {veto.perPerson}</Label>
+            <Slider value={[veto.perPerson]} min={1} max={5} onValueChange={(v: number[] | undefined) => setVeto({ ...veto, perPerson: v ? v[0] : veto.perPerson })} />
+          </div>
+
+          <div>
+            <Label>Veto window: {veto.windowSecs}s</Label>
+            <Slider value={[veto.windowSecs]} min={3} max={30} onValueChange={(v: number[] | undefined) => setVeto({ ...veto, windowSecs: v ? v[0] : veto.windowSecs })} />
+          </div>
+
+          <div className="inline-flex items-center gap-2">
+            <Checkbox id="veto-remove" checked={veto.removeVetoed} onCheckedChange={(c: boolean | 'indeterminate' | undefined) => setVeto({ ...veto, removeVetoed: Boolean(c) })} />
+            <Label htmlFor="veto-remove">Remove vetoed movies (otherwise they sit out until reset)</Label>
+          </div>
+
+          <div>
+            <Button variant="ghost" size="sm" onClick={resetVetoes}>Reset vetoes</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// A text field that only reports its value on blur or Enter, so each edit is one undo step.
+// The draft then goes back to `value`, in case the commit normalized it to what was already there.
+function DraftInput({ value, onCommit, ...props }: Omit<React.ComponentProps<typeof Input>, 'value' | 'onChange' | 'onBlur'> & {
+  value: string;
+  onCommit: (value: string) => void;
+}) {
+  const [draft, setDraft] = React.useState(value);
+  React.useEffect(() => { setDraft(value); }, [value]);
+
+  return (
+    <Input
+      {...props}
+      value={draft}
+      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== value) onCommit(draft);
+        setDraft(value);
+      }}
+      onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+    />
+  );
+}
+
+function SliceDetails({ slice, updateSlice, setPoster, disabled }: {
+  slice: Slice;
+  updateSlice: (id: string, patch: SliceUpdate, coalesceKey?: string) => void;
+  setPoster: (id: string, poster: string | undefined) => void;
+  disabled: boolean;
+}) {
+  const meta = slice.meta ?? {};
+  const [posterError, setPosterError] = React.useState<string | null>(null);
+  const [posterURL, setPosterURL] = React.useState('');
+  const id = (field: string) => `slice-${slice.id}-${field}`;
+
+  // Merged into the slice's latest details, since a poster can finish loading after other fields changed.
+  function setMeta(patch: Partial<MovieMeta>) {
+    updateSlice(slice.id, s => ({ meta: { ...s.meta, ...patch } }));
+  }
+
+  function toNumber(v: string) {
+    return v.trim() ? Number(v) : undefined;
+  }
+
+  async function onPoster(file: File) {
+    try {
+      setPosterError(null);
+      setPoster(slice.id, await readImageFile(file));
+    } catch (e) {
+      setPosterError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function onPosterURL(text: string) {
+    if (!text.trim()) return;
+    try {
+      setPosterError(null);
+      setPoster(slice.id, await readImageDataURL(text));
+      setPosterURL('');
+    } catch (e) {
+      setPosterError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  // Pasting an image (not its address) gives a file rather than text.
+  function onPaste(e: React.ClipboardEvent<HTMLInputElement>) {
+    const file = Array.from(e.clipboardData.files).find(f => f.type.startsWith('image/'));
+    if (!file) return;
+    e.preventDefault();
+    onPoster(file);
+  }
+
+  return (
+    <div className="mt-2 mb-1 ml-6 grid grid-cols-2 gap-2 rounded-md border p-2 text-sm">
+      <div className="flex flex-col gap-1">
+        <Label htmlFor={id('year')}>Year</Label>
+        <DraftInput id={id('year')} className="h-8 px-2" inputMode="numeric" value={meta.year?.toString() ?? ''} onCommit={v => setMeta({ year: toNumber(v) })} disabled={disabled} />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor={id('runtime')}>Runtime (min)</Label>
+        <DraftInput id={id('runtime')} className="h-8 px-2" inputMode="numeric" value={meta.runtime?.toString() ?? ''} onCommit={v => setMeta({ runtime: toNumber(v) })} disabled={disabled} />
+      </div>
+      <div className="col-span-2 flex flex-col gap-1">
+        <Label htmlFor={id('genres')}>Genres</Label>
+        <DraftInput id={id('genres')} className="h-8 px-2" placeholder="Comedy, Horror" value={meta.genres?.join(', ') ?? ''} onCommit={v => setMeta({ genres: parseGenres(v) })} disabled={disabled} />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor={id('suggested')}>Suggested by</Label>
+        <DraftInput id={id('suggested')} className="h-8 px-2" value={meta.suggestedBy ?? ''} onCommit={v => setMeta({ suggestedBy: v })} disabled={disabled} />
+      </div>
+      <div className="flex flex-col gap-1">
+        <Label htmlFor={id('streaming')}>Streaming on</Label>
+        <DraftInput id={id('streaming')} className="h-8 px-2" value={meta.streaming ?? ''} onCommit={v => setMeta({ streaming: v })} disabled={disabled} />
+      </div>
+      <div className="col-span-2 flex flex-col gap-1">
+        <Label htmlFor={id('notes')}>Notes</Label>
+        <DraftInput id={id('notes')} className="h-8 px-2" value={slice.notes ?? ''} onCommit={v => updateSlice(slice.id, { notes: v.trim() || undefined })} disabled={disabled} />
+      </div>
+      <div className="col-span-2 flex items-center gap-2">
+        {meta.poster && (
+          <Image src={meta.poster} alt="" width={213} height={320} unoptimized className="h-12 w-auto rounded-sm border" />
+        )}
+        <label className="inline-flex cursor-pointer">
+          <Button variant="secondary" size="sm" asChild><span>{meta.poster ? 'Change poster' : 'Add poster'}</span></Button>
+          <input type="file" accept="image/*" className="hidden" disabled={disabled} onChange={e => {
+            const f = e.target.files?.[0];
+            if (f) onPoster(f);
+            e.target.value = '';
+          }} />
+        </label>
+        {meta.poster && <Button variant="ghost" size="sm" onClick={() => setPoster(slice.id, undefined)} disabled={disabled}>Remove</Button>}
+      </div>
+      <div className="col-span-2 flex items-center gap-2">
+        <Input
+          aria-label="Paste a poster"
+          className="h-8 px-2"
+          placeholder="…or paste an image or data:image/ URL"
+          value={posterURL}
+          onChange={e => setPosterURL(e.target.value)}
+          onPaste={onPaste}
+          onKeyDown={e => { if (e.key === 'Enter') onPosterURL(posterURL); }}
+          disabled={disabled}
+        />
+        <Button variant="secondary" size="sm" onClick={() => onPosterURL(posterURL)} disabled={disabled || !posterURL.trim()}>Use</Button>
+      </div>
+      {posterError && <p className="col-span-2 text-destructive" role="alert">{posterError}</p>}
+    </div>
+  );
+}
+
+function SliceRow({ slice, index, count, share, pattern, isSpinning, dragging, dropTarget, updateSlice, setPoster, moveSlice, removeSlice, handleRef, onDragStart, onDragOver, onDrop, onDragEnd }: {
+  slice: Slice;
+  index: number;
+  count: number;
+  share: number;
+  pattern: PatternKind | null;
+  isSpinning: boolean;
+  dragging: boolean;
+  dropTarget: boolean;
+  updateSlice: (id: string, patch: SliceUpdate, coalesceKey?: string) => void;
+  setPoster: (id: string, poster: string | undefined) => void;
+  moveSlice: (id: string, toIndex: number) => void;
+  removeSlice: (id: string) => void;
+  handleRef: (el: HTMLSpanElement | null) => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDrop: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
+}) {
+  const [draft, setDraft] = React.useState(slice.label);
+  const [expanded, setExpanded] = React.useState(false);
+  // One undo step per visit to the color picker, however many colors it passes through.
+  const colorEditRef = React.useRef(0);
+
+  // Pick up outside changes (undo, import) when the field isn't being edited.
+  React.useEffect(() => { setDraft(slice.label); }, [slice.label]);
+
+  function commitLabel() {
+    if (draft.trim() && draft !== slice.label) updateSlice(slice.id, { label: draft });
+    else setDraft(slice.label);
+  }
+
+  return (
+    <li
+      className={`rounded-md ${dragging ? 'opacity-50' : ''} ${dropTarget ? 'ring-2 ring-ring/50' : ''}`}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
+    >
+      <div className="flex items-center gap-2">
+        {/* A span rather than a button: Firefox won't start a drag from a <button>. */}
+        <span
+          ref={handleRef}
+          role="button"
+          tabIndex={isSpinning ? -1 : 0}
+          aria-disabled={isSpinning}
+          draggable={!isSpinning}
+          onDragStart={onDragStart}
+          onDragEnd={onDragEnd}
+          onKeyDown={e => {
+            if (isSpinning) return;
+            if (e.key === 'ArrowUp' && index > 0) { e.preventDefault(); moveSlice(slice.id, index - 1); }
+            if (e.key === 'ArrowDown' && index < count - 1) { e.preventDefault(); moveSlice(slice.id, index + 1); }
+          }}
+          aria-label={`Move ${slice.label}, position ${index + 1} of ${count}. Use the arrow keys to reorder.`}
+          className="text-muted-foreground cursor-grab rounded-sm outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 aria-disabled:cursor-not-allowed"
+        >
+          <GripVertical className="size-4" aria-hidden />
+        </span>
+
+        <label className="inline-flex cursor-pointer" title="Slice color">
+          <input
+            type="color"
+            aria-label={`Color for ${slice.label}`}
+            value={slice.color}
+            onChange={e => updateSlice(slice.id, { color: e.target.value }, `${slice.id}:color:${colorEditRef.current}`)}
+            onBlur={() => { colorEditRef.current++; }}
+            className="sr-only"
+            disabled={isSpinning}
+          />
+          <span className="inline-block h-4 w-4 rounded-sm" style={{ background: pattern ? patternBackground(pattern, slice.color) : slice.color }} aria-hidden />
+        </label>
+
+        <Input
+          aria-label={`Title for movie ${index + 1}`}
+          className="h-8 flex-1 px-2"
+          value={draft}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(e.target.value)}
+          onBlur={commitLabel}
+          onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') { setDraft(slice.label); e.currentTarget.blur(); }
+          }}
+          disabled={isSpinning}
+        />
+
+        <span className="text-xs text-muted-foreground tabular-nums" title="Share of the wheel">{share}%</span>
+        <DraftInput
+          type="number"
+          aria-label={`Weight for ${slice.label}`}
+          title="Weight"
+          className="h-8 w-14 px-2"
+          value={String(slice.weight)}
+          min={0.1}
+          max={100}
+          step={0.5}
+          onCommit={v => { if (v.trim()) updateSlice(slice.id, { weight: Number(v) }); }}
+          disabled={isSpinning}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-8"
+          onClick={() => setExpanded(v => !v)}
+          aria-expanded={expanded}
+          aria-label={`Details for ${slice.label}`}
+          title="Details"
+        >
+          <ChevronDown className={expanded ? 'rotate-180 transition-transform' : 'transition-transform'} />
+        </Button>
+        <Button variant="ghost" size="icon" className="size-8" onClick={() => removeSlice(slice.id)} disabled={isSpinning} aria-label={`Remove ${slice.label}`} title="Remove">
+          <X />
+        </Button>
+      </div>
+      {expanded && <SliceDetails slice={slice} updateSlice={updateSlice} setPoster={setPoster} disabled={isSpinning} />}
+    </li>
+  );
+}
+
+function SliceList({ slices, removeSlice, updateSlice, setPoster, moveSlice, isSpinning }: {
+  slices: Slice[];
+  removeSlice: (id: string) => void;
+  updateSlice: (id: string, patch: SliceUpdate, coalesceKey?: string) => void;
+  setPoster: (id: string, poster: string | undefined) => void;
+  moveSlice: (id: string, toIndex: number) => void;
+  isSpinning: boolean;
+}) {
+  const total = slices.reduce((sum, s) => sum + s.weight, 0);
+  const patterns = usePatterns();
+  const [dragId, setDragId] = React.useState<string | null>(null);
+  const [overIndex, setOverIndex] = React.useState<number | null>(null);
+  const handleRefs = React.useRef(new Map<string, HTMLSpanElement>());
+  const refocusRef = React.useRef<string | null>(null);
+
+  // Moving a row re-inserts its DOM node, which drops focus; put it back on the moved handle.
+  React.useEffect(() => {
+    if (!refocusRef.current) return;
+    handleRefs.current.get(refocusRef.current)?.focus();
+    refocusRef.current = null;
+  }, [slices]);
+
+  function move(id: string, toIndex: number) {
+    refocusRef.current = id;
+    moveSlice(id, toIndex);
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -98,11 +643,43 @@ function SliceList({ slices, removeSlice, isSpinning }: { slices: Slice[]; remov
         ) : (
           <ul className="space-y-2 max-h-[260px] overflow-auto pr-1">
             {slices.map((s, i) => (
-              <li key={s.id} className="flex items-center gap-2">
-                <span className="inline-block h-4 w-4 rounded-sm" style={{ background: s.color }} aria-hidden />
-                <span className="flex-1 truncate">{i + 1}. {s.label}</span>
-                <Button variant="ghost" className="px-2 py-1" onClick={() => removeSlice(s.id)} disabled={isSpinning}>Remove</Button>
-              </li>
+              <SliceRow
+                key={s.id}
+                slice={s}
+                index={i}
+                count={slices.length}
+                share={total > 0 ? Math.round((s.weight / total) * 100) : 0}
+                pattern={patterns ? patternFor(i) : null}
+                isSpinning={isSpinning}
+                dragging={dragId === s.id}
+                dropTarget={dragId !== null && dragId !== s.id && overIndex === i}
+                updateSlice={updateSlice}
+                setPoster={setPoster}
+                moveSlice={move}
+                removeSlice={removeSlice}
+                handleRef={el => {
+                  if (el) handleRefs.current.set(s.id, el);
+                  else handleRefs.current.delete(s.id);
+                }}
+                onDragStart={e => {
+                  setDragId(s.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', s.label);
+                }}
+                onDragOver={e => {
+                  if (!dragId) return;
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = 'move';
+                  setOverIndex(i);
+                }}
+                onDrop={e => {
+                  e.preventDefault();
+                  if (dragId) moveSlice(dragId, i);
+                  setDragId(null);
+                  setOverIndex(null);
+                }}
+                onDragEnd={() => { setDragId(null); setOverIndex(null); }}
+              />
             ))}
           </ul>
         )}
@@ -111,59 +688,456 @@ function SliceList({ slices, removeSlice, isSpinning }: { slices: Slice[]; remov
   );
 }
 
-export default function Controls() {
-  const {
-    slices, radius, spinSecs, removalMode, isSpinning,
-    setRadius, setSpinSecs, setRemovalMode,
-    addSlice, newLabel, setNewLabel, newColor, setNewColor,
-    removeSlice, exportJSON, importJSON,
-    muted, setMuted, volume, setVolume
-  } = useWheel();
-
+function Swatches({ colors }: { colors: string[]; }) {
   return (
-    <div className="space-y-5">
-      <AddMovieForm newLabel={newLabel} setNewLabel={setNewLabel} newColor={newColor} setNewColor={setNewColor} addSlice={addSlice} disabled={isSpinning} />
+    <span className="flex flex-wrap gap-0.5" aria-hidden>
+      {colors.map(c => <span key={c} className="inline-block h-3 w-3 rounded-sm border" style={{ background: c }} />)}
+    </span>
+  );
+}
+
+function PaletteManager({ palettes, paletteId, setPaletteId, applyPalette, savePalette, deletePalette, sliceColors, disabled }: {
+  palettes: Palette[];
+  paletteId: string;
+  setPaletteId: (id: string) => void;
+  applyPalette: () => void;
+  savePalette: (name: string, colors: string[]) => void;
+  deletePalette: (id: string) => void;
+  sliceColors: string[];
+  disabled: boolean;
+}) {
+  const [name, setName] = React.useState('');
+  const [colorsText, setColorsText] = React.useState('');
+  const parsed = parseColors(colorsText);
+  const patterns = usePatterns();
 
-      <WheelSettings radius={radius} spinSecs={spinSecs} setRadius={setRadius} setSpinSecs={setSpinSecs} removalMode={removalMode} setRemovalMode={setRemovalMode} disabled={isSpinning} />
+  function save() {
+    savePalette(name, parsed);
+    setName('');
+    setColorsText('');
+  }
 
-      <SliceList slices={slices} removeSlice={removeSlice} isSpinning={isSpinning} />
+  return (
+    <Card className={disabled ? "opacity-50 cursor-not-allowed pointer-events-none" : ""}>
+      <CardHeader>
+        <CardTitle>Colors</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-3">
+          <ul className="space-y-1" aria-label="Palettes">
+            {palettes.map(p => (
+              <li key={p.id} className="flex items-center gap-2">
+                <Button
+                  variant={p.id === paletteId ? 'secondary' : 'ghost'}
+                  className="h-auto flex-1 justify-start gap-3 px-2 py-1.5"
+                  aria-pressed={p.id === paletteId}
+                  onClick={() => setPaletteId(p.id)}
+                >
+                  <span className="w-28 shrink-0 truncate text-left">{p.name}</span>
+                  <Swatches colors={p.colors} />
+                  {p.colorblindSafe && <span className="ml-auto text-xs text-muted-foreground">Colorblind-safe</span>}
+                </Button>
+                {!p.builtIn && (
+                  <Button variant="ghost" size="icon" className="size-7" onClick={() => deletePalette(p.id)} aria-label={`Delete ${p.name}`} title="Delete">
+                    <X />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="inline-flex items-center gap-2">
+            <Checkbox id="slice-patterns" checked={patterns} onCheckedChange={(c: boolean | 'indeterminate' | undefined) => setPatternsEnabled(Boolean(c))} />
+            <Label htmlFor="slice-patterns">Patterns on slices, so they don&apos;t rely on color alone</Label>
+          </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Presets</CardTitle>
-        </CardHeader>
-        <CardContent>
           <div className="flex items-center gap-2">
+            <Button variant="secondary" size="sm" onClick={applyPalette} disabled={sliceColors.length === 0}>Apply to slices</Button>
+            <span className="text-xs text-muted-foreground">New movies and Shuffle colors use this palette too.</span>
+          </div>
+
+          <div className="flex flex-col gap-2 border-t pt-3">
+            <Label htmlFor="palette-name">New palette</Label>
+            <Input id="palette-name" placeholder="Name" value={name} onChange={e => setName(e.target.value)} />
+            <Input aria-label="Palette colors" placeholder="#ef4444, #3b82f6, #eab308" value={colorsText} onChange={e => setColorsText(e.target.value)} />
+            {parsed.length > 0 && <Swatches colors={parsed} />}
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setColorsText(parseColors(sliceColors.join(',')).join(', '))} disabled={sliceColors.length === 0}>
+                Use slice colors
+              </Button>
+              <Button size="sm" onClick={save} disabled={parsed.length === 0}>Save palette</Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function WheelLibrary({ wheels, activeWheelId, activeSliceCount, switchWheel, createWheel, renameWheel, duplicateWheel, deleteWheel, exportJSON, importJSON, importStatus, dismissImportStatus, exportCSV, copyShareLink, disabled }: {
+  wheels: SavedWheel[];
+  activeWheelId: string;
+  activeSliceCount: number;
+  switchWheel: (id: string) => void;
+  createWheel: (name?: string) => void;
+  renameWheel: (id: string, name: string) => void;
+  duplicateWheel: (id: string) => void;
+  deleteWheel: (id: string) => void;
+  exportJSON: () => void;
+  importJSON: (f: File) => void;
+  importStatus: ImportStatus | null;
+  dismissImportStatus: () => void;
+  exportCSV: () => void;
+  copyShareLink: () => Promise<boolean>;
+  disabled: boolean;
+}) {
+  const active = wheels.find(w => w.id === activeWheelId);
+  const [copyStatus, setCopyStatus] = React.useState<'idle' | 'copied' | 'failed'>('idle');
+
+  async function onCopyLink() {
+    setCopyStatus((await copyShareLink()) ? 'copied' : 'failed');
+    setTimeout(() => setCopyStatus('idle'), 2000);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Presets</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-3">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild disabled={disabled}>
+              <Button variant="outline" className="justify-between">
+                <span className="truncate">{active?.name || 'Untitled wheel'}</span>
+                <span className="text-xs text-muted-foreground">{wheels.length} saved</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-[var(--radix-dropdown-menu-trigger-width)]">
+              <DropdownMenuRadioGroup value={activeWheelId} onValueChange={switchWheel}>
+                {wheels.map(w => (
+                  <DropdownMenuRadioItem key={w.id} value={w.id}>
+                    <span className="flex-1 truncate">{w.name || 'Untitled wheel'}</span>
+                    <span className="text-xs text-muted-foreground">{w.id === activeWheelId ? activeSliceCount : w.slices.length}</span>
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {active && (
+            <Input
+              aria-label="Wheel name"
+              value={active.name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => renameWheel(active.id, e.target.value)}
+              placeholder="Wheel name"
+              disabled={disabled}
+            />
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="secondary" onClick={() => createWheel()} disabled={disabled}>New</Button>
+            <Button variant="secondary" onClick={() => duplicateWheel(activeWheelId)} disabled={disabled}>Duplicate</Button>
+            <Button variant="ghost" onClick={() => deleteWheel(activeWheelId)} disabled={disabled || wheels.length <= 1}>Delete</Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
             <Button variant="secondary" onClick={exportJSON}>Export JSON</Button>
+            <Button variant="secondary" onClick={exportCSV}>Export CSV</Button>
+            <Button variant="secondary" onClick={onCopyLink} aria-live="polite">
+              {copyStatus === 'copied' ? 'Link copied' : copyStatus === 'failed' ? 'Copy failed' : 'Copy link'}
+            </Button>
             <label className="inline-flex items-center gap-2 cursor-pointer">
-              <Button variant="secondary">Import JSON</Button>
-              <input type="file" accept="application/json" className="hidden" onChange={e => {
+              <Button variant="secondary" asChild><span>Import JSON</span></Button>
+              <input type="file" accept="application/json" className="hidden" disabled={disabled} onChange={e => {
                 const f = e.target.files?.[0];
                 if (f) importJSON(f);
+                e.target.value = '';
               }} />
             </label>
           </div>
-        </CardContent>
-      </Card>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Sound</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex flex-col gap-3">
-            <div className="inline-flex items-center gap-2">
-              <Checkbox checked={Boolean(muted)} onCheckedChange={(c: boolean | 'indeterminate' | undefined) => setMuted && setMuted(Boolean(c))} />
-              <Label>Mute</Label>
+
+          {importStatus && (
+            <div
+              role={importStatus.kind === 'error' ? 'alert' : 'status'}
+              className={`rounded-md border p-3 text-sm ${importStatus.kind === 'error' ? 'border-destructive/50 text-destructive' : 'text-muted-foreground'}`}
+            >
+              <div className="flex items-start gap-2">
+                <p className="flex-1 font-medium">{importStatus.message}</p>
+                <button type="button" onClick={dismissImportStatus} aria-label="Dismiss" className="opacity-70 hover:opacity-100">
+                  <X className="size-4" />
+                </button>
+              </div>
+              {importStatus.kind === 'error' && importStatus.details.length > 0 && (
+                <ul className="mt-2 list-disc space-y-1 pl-5 font-mono text-xs">
+                  {importStatus.details.map((d, i) => <li key={i}>{d}</li>)}
+                </ul>
+              )}
             </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
-            <div>
-              <Label>Volume: {Math.round((volume ?? 0.6) * 100)}%</Label>
-              <Slider value={[volume ?? 0.6]} min={0} max={1} step={0.01} onValueChange={(v: number[] | undefined) => setVolume && setVolume(v ? v[0] : (volume ?? 0.6))} />
+function SpinHistory({ history, slices, clearHistory, exportHistory, restoreFromHistory, isSpinning }: {
+  history: SpinRecord[];
+  slices: Slice[];
+  clearHistory: () => void;
+  exportHistory: () => void;
+  restoreFromHistory: (recordId: string) => void;
+  isSpinning: boolean;
+}) {
+  const onWheel = new Set(slices.map(s => s.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {history.length === 0 ? (
+          <p className="text-muted-foreground">No spins yet.</p>
+        ) : (
+          <ul className="space-y-2 max-h-[260px] overflow-auto pr-1">
+            {history.map(r => (
+              <li key={r.id} className="flex items-center gap-2">
+                <span className="inline-block h-4 w-4 rounded-sm" style={{ background: r.color }} aria-hidden />
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate">{r.label}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {new Date(r.at).toLocaleString()} · {r.sliceCount} slices · {(r.durationMs / 1000).toFixed(0)}s{r.removed ? ' · removed' : ''}{r.vetoedBy ? ` · vetoed by ${r.vetoedBy}` : ''}
+                  </span>
+                  {r.tally && (
+                    <span className="block truncate text-xs text-muted-foreground" title={r.tally.map(t => `${t.label}: ${t.count}`).join('\n')}>
+                      Best of {r.tally.reduce((sum, t) => sum + t.count, 0)}: {r.tally.map(t => `${t.label} ${t.count}`).join(' · ')}
+                    </span>
+                  )}
+                </span>
+                {r.removed && (
+                  <Button variant="ghost" className="px-2 py-1" onClick={() => restoreFromHistory(r.id)} disabled={isSpinning || onWheel.has(r.slice.id)}>
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-3 flex items-center gap-2">
+          <Button variant="secondary" onClick={exportHistory} disabled={history.length === 0}>Export</Button>
+          <Button variant="ghost" onClick={clearHistory} disabled={history.length === 0}>Clear</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const SOUND_NAMES: Record<SoundKind, string> = { tick: 'Tick', win: 'Win fanfare' };
+
+function SoundSettings({ muted, setMuted, volume, setVolume, soundPack, setSoundPack, customSounds, setCustomSound, previewSound }: {
+  muted: boolean;
+  setMuted: (b: boolean) => void;
+  volume: number;
+  setVolume: (n: number) => void;
+  soundPack: SoundPackId;
+  setSoundPack: (p: SoundPackId) => void;
+  customSounds: CustomSounds;
+  setCustomSound: (kind: SoundKind, src: string | null) => void;
+  previewSound: (kind: SoundKind) => void;
+}) {
+  const [error, setError] = React.useState<string | null>(null);
+
+  async function onUpload(kind: SoundKind, file: File) {
+    try {
+      setError(null);
+      setCustomSound(kind, await readAudioFile(file));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sound</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-3">
+          <div className="inline-flex items-center gap-2">
+            <Checkbox id="sound-muted" checked={Boolean(muted)} onCheckedChange={(c: boolean | 'indeterminate' | undefined) => setMuted(Boolean(c))} />
+            <Label htmlFor="sound-muted">Mute</Label>
+          </div>
+
+          <div>
+            <Label>Volume: {Math.round((volume ?? 0.6) * 100)}%</Label>
+            <Slider value={[volume ?? 0.6]} min={0} max={1} step={0.01} onValueChange={(v: number[] | undefined) => setVolume(v ? v[0] : (volume ?? 0.6))} />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label>Sound pack</Label>
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Sound pack">
+              {SOUND_PACK_IDS.map(id => (
+                <Button key={id} size="sm" className="h-7 px-2" variant={id === soundPack ? 'default' : 'outline'} aria-pressed={id === soundPack} onClick={() => setSoundPack(id)}>
+                  {SOUND_PACKS[id].label}
+                </Button>
+              ))}
             </div>
+            <p className="text-xs text-muted-foreground">{SOUND_PACKS[soundPack].description}</p>
+          </div>
+
+          <ul className="space-y-1 text-sm">
+            {(['tick', 'win'] as const).map(kind => (
+              <li key={kind} className="flex items-center gap-2">
+                <span className="flex-1 truncate">
+                  {SOUND_NAMES[kind]}
+                  <span className="text-muted-foreground"> · {customSounds[kind] ? 'your file' : SOUND_PACKS[soundPack].label}</span>
+                </span>
+                <Button variant="ghost" size="icon" className="size-7" onClick={() => previewSound(kind)} aria-label={`Preview ${SOUND_NAMES[kind].toLowerCase()}`} title="Preview">
+                  <Play />
+                </Button>
+                <label className="inline-flex cursor-pointer">
+                  <Button variant="secondary" size="sm" asChild><span>Upload</span></Button>
+                  <input type="file" accept="audio/*" className="hidden" onChange={e => {
+                    const f = e.target.files?.[0];
+                    if (f) onUpload(kind, f);
+                    e.target.value = '';
+                  }} />
+                </label>
+                {customSounds[kind] && (
+                  <Button variant="ghost" size="icon" className="size-7" onClick={() => setCustomSound(kind, null)} aria-label={`Remove your ${SOUND_NAMES[kind].toLowerCase()}`} title="Remove">
+                    <X />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const MOTION_OPTIONS: { value: MotionPreference; label: string; }[] = [
+  { value: 'system', label: 'System' },
+  { value: 'reduce', label: 'Reduce' },
+  { value: 'full', label: 'Full' },
+];
+
+// Reduced motion skips the spin animation, confetti and the animated games.
+function MotionSettings() {
+  const pref = useMotionPreference();
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Motion</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-wrap gap-1" role="group" aria-label="Motion">
+            {MOTION_OPTIONS.map(o => (
+              <Button key={o.value} size="sm" className="h-7 px-2" variant={pref === o.value ? 'default' : 'outline'} aria-pressed={pref === o.value} onClick={() => setMotionPreference(o.value)}>
+                {o.label}
+              </Button>
+            ))}
           </div>
-        </CardContent>
-      </Card>
+          <p className="text-xs text-muted-foreground">
+            Reduce shows where the wheel lands without spinning it and turns off confetti. System follows your device setting.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Controls() {
+  const {
+    slices, radius, spinSecs, removalMode, isSpinning,
+    setRadius, setSpinSecs, setRemovalMode, labelStyle, setLabelStyle, spinProfile, setSpinProfile, roundPauseSecs, setRoundPauseSecs, bestOfSpins, setBestOfSpins, veto, setVeto, vetoesUsed, resetVetoes, filter, setFilter, eligibleCount,
+    addSlice, newLabelMatch, mergeNewLabel, newLabel, setNewLabel, newColor, setNewColor,
+    removeSlice, updateSlice, setPoster, moveSlice, palettes, paletteId, setPaletteId, applyPalette, savePalette, deletePalette, exportJSON, importJSON, importStatus, dismissImportStatus,
+    muted, setMuted, volume, setVolume, soundPack, setSoundPack, customSounds, setCustomSound, previewSound,
+    wheels, activeWheelId, switchWheel, createWheel, renameWheel, duplicateWheel, deleteWheel,
+    exportCSV, copyShareLink, history, clearHistory, exportHistory, restoreFromHistory, saveFailed, newerSave
+  } = useWheel();
+  const [bulkOpen, setBulkOpen] = React.useState(false);
+
+  return (
+    <div className="space-y-5">
+      {newerSave && (
+        <p className="rounded-md border border-destructive/50 p-3 text-sm text-destructive" role="alert">
+          Your wheels were saved by a newer version of this app, so changes made here aren&apos;t saved over them. Open the newer version to get them back.
+        </p>
+      )}
+      {saveFailed && (
+        <p className="rounded-md border border-destructive/50 p-3 text-sm text-destructive" role="alert">
+          Changes aren&apos;t being saved: this browser&apos;s storage is full. Remove some posters or custom sounds, clear the spin history, or export your wheels to keep them.
+        </p>
+      )}
+      <AddMovieForm newLabel={newLabel} setNewLabel={setNewLabel} newColor={newColor} setNewColor={setNewColor} addSlice={addSlice} match={newLabelMatch} mergeNewLabel={mergeNewLabel} onBulkAdd={() => setBulkOpen(true)} disabled={isSpinning} />
+      <BulkAddDialog open={bulkOpen} onClose={() => setBulkOpen(false)} />
+
+      <WheelSettings radius={radius} spinSecs={spinSecs} setRadius={setRadius} setSpinSecs={setSpinSecs} labelStyle={labelStyle} setLabelStyle={setLabelStyle} spinProfile={spinProfile} setSpinProfile={setSpinProfile} roundPauseSecs={roundPauseSecs} setRoundPauseSecs={setRoundPauseSecs} bestOfSpins={bestOfSpins} setBestOfSpins={setBestOfSpins} removalMode={removalMode} setRemovalMode={setRemovalMode} disabled={isSpinning} />
+
+      <SpinFilter slices={slices} filter={filter} setFilter={setFilter} eligibleCount={eligibleCount} disabled={isSpinning} />
+
+      <VetoSettingsCard veto={veto} setVeto={setVeto} vetoesUsed={vetoesUsed} resetVetoes={resetVetoes} disabled={isSpinning} />
+
+      <SliceList slices={slices} removeSlice={removeSlice} updateSlice={updateSlice} setPoster={setPoster} moveSlice={moveSlice} isSpinning={isSpinning} />
+
+      <PaletteManager
+        palettes={palettes}
+        paletteId={paletteId}
+        setPaletteId={setPaletteId}
+        applyPalette={applyPalette}
+        savePalette={savePalette}
+        deletePalette={deletePalette}
+        sliceColors={slices.map(s => s.color)}
+        disabled={isSpinning}
+      />
+
+      <WheelLibrary
+        wheels={wheels}
+        activeWheelId={activeWheelId}
+        activeSliceCount={slices.length}
+        switchWheel={switchWheel}
+        createWheel={createWheel}
+        renameWheel={renameWheel}
+        duplicateWheel={duplicateWheel}
+        deleteWheel={deleteWheel}
+        exportJSON={exportJSON}
+        importJSON={importJSON}
+        importStatus={importStatus}
+        dismissImportStatus={dismissImportStatus}
+        exportCSV={exportCSV}
+        copyShareLink={copyShareLink}
+        disabled={isSpinning}
+      />
+
+      <SpinHistory
+        history={history}
+        slices={slices}
+        clearHistory={clearHistory}
+        exportHistory={exportHistory}
+        restoreFromHistory={restoreFromHistory}
+        isSpinning={isSpinning}
+      />
+
+      <SoundSettings
+        muted={muted}
+        setMuted={setMuted}
+        volume={volume}
+        setVolume={setVolume}
+        soundPack={soundPack}
+        setSoundPack={setSoundPack}
+        customSounds={customSounds}
+        setCustomSound={setCustomSound}
+        previewSound={previewSound}
+      />
+
+      <MotionSettings />
     </div>
   );
 }
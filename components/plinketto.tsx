@@ -4,6 +4,7 @@ import React, { useEffect, useRef, useState, useMemo, useCallback } from "react"
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
+import { prefersReducedMotion } from "@/lib/motion";
 
 /**
  * Plinketto — single file React + Canvas
@@ -230,6 +231,11 @@ export default function Plinketto() {
       color: themeColors.ballColors[id % themeColors.ballColors.length],
     };
     balls.current.push(b);
+    // Reduced motion: settle the ball right away instead of animating the fall.
+    if (prefersReducedMotion()) {
+      for (let i = 0; b.alive && i < 120 * 30; i++) physics(1 / 120, [b]);
+      b.alive = false;
+    }
   }
 
   function reset() {
@@ -257,19 +263,22 @@ export default function Plinketto() {
     return () => cancelAnimationFrame(raf);
   }, [dropping, settings, size.w, size.h, themeVersion]);
 
-  // Physics step
-  function physics(dt: number) {
+  // Physics step, for every ball or just `only`
+  function physics(dt: number, only?: Ball[]) {
     const w = size.w;
     const h = size.h - settings.slotHeight;
     const left = settings.wallPadding;
     const right = w - settings.wallPadding;
 
-    for (const b of balls.current) {
+    // friction is per 60 fps frame; scale it so smaller steps damp the same
+    const damping = Math.pow(1 - settings.friction, dt * 60);
+
+    for (const b of only ?? balls.current) {
       if (!b.alive) continue;
       // integrate
       b.vy += settings.gravity * dt;
-      b.vx *= 1 - settings.friction;
-      b.vy *= 1 - settings.friction;
+      b.vx *= damping;
+      b.vy *= damping;
       b.x += b.vx * dt;
       b.y += b.vy * dt;
 
@@ -5,6 +5,9 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
 import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { prefersReducedMotion } from '@/lib/motion';
+import { canvasPattern, patternBackground, patternFor, setPatternsEnabled, usePatterns } from '@/lib/patterns';
 
 // Movie Beyblade Battle — single-file React + Canvas, no dependencies
 // What you get
@@ -79,6 +82,10 @@ export default function SpinBlade() {
   const simRef = useRef({ running: false, tops: [] as Top[], winner: null as string | null });
   const rafRef = useRef<number | null>(null);
   const rngRef = useRef<() => number>(() => Math.random());
+  // Same setting as the wheel's "Patterns on slices"; read through a ref so toggling it doesn't respawn the tops.
+  const patterns = usePatterns();
+  const patternsRef = useRef(patterns);
+  patternsRef.current = patterns;
 
   const dpr = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
 
@@ -114,6 +121,13 @@ export default function SpinBlade() {
     if (movies.length < 2) return;
     spawnTops();
     simRef.current.running = true;
+    // Reduced motion: run the whole battle at once and show only the result.
+    if (prefersReducedMotion()) {
+      for (let i = 0; simRef.current.running && i < 120 * 120; i++) physicsStep(FIXED_DT);
+      simRef.current.running = false;
+      draw();
+      return;
+    }
     tick();
   }
   function pause() { simRef.current.running = false; if (rafRef.current) cancelAnimationFrame(rafRef.current); }
@@ -224,7 +238,7 @@ export default function SpinBlade() {
 
     // Tops
     const tops = simRef.current.tops;
-    for (const t of tops) {
+    for (const [i, t] of tops.entries()) {
       const alpha = t.alive ? 1 : 0.22;
       // Body
       ctx.save(); ctx.translate(t.x, t.y); ctx.rotate(t.ang);
@@ -233,6 +247,8 @@ export default function SpinBlade() {
       ctx.beginPath(); ctx.arc(0, 0, t.r + 3, 0, Math.PI * 2); ctx.fillStyle = styleSource.getPropertyValue('--muted')?.trim() || '#0f172a'; ctx.fill();
       // core
       ctx.beginPath(); ctx.arc(0, 0, t.r, 0, Math.PI * 2); ctx.fillStyle = t.color; ctx.fill();
+      const pattern = patternsRef.current ? canvasPattern(ctx, patternFor(i), t.color) : null;
+      if (pattern) { ctx.fillStyle = pattern; ctx.fill(); }
       // center cap
       ctx.beginPath(); ctx.arc(0, 0, Math.max(6, t.r * 0.35), 0, Math.PI * 2); ctx.fillStyle = styleSource.getPropertyValue('--card-foreground')?.trim() || 'rgba(255,255,255,0.75)'; ctx.fill();
       ctx.restore();
@@ -276,6 +292,7 @@ export default function SpinBlade() {
   }
 
   useEffect(() => { spawnTops(); draw(); return pause; }, [draw, spawnTops]);
+  useEffect(() => { draw(); }, [draw, patterns]);
 
   // Re-draw when the document theme class changes (.dark toggled on <html> or <body>).
   useEffect(() => {
@@ -359,6 +376,11 @@ export default function SpinBlade() {
 
               <Label className="mt-3">Seed: {settings.seed}</Label>
               <input type="range" min={1} max={10000} step={1} value={settings.seed} onChange={e => setSettings(s => ({ ...s, seed: parseInt(e.target.value) }))} className="w-full" />
+
+              <div className="mt-3 inline-flex items-center gap-2">
+                <Checkbox id="blade-patterns" checked={patterns} onCheckedChange={(c: boolean | 'indeterminate' | undefined) => setPatternsEnabled(Boolean(c))} />
+                <Label htmlFor="blade-patterns">Patterns on tops</Label>
+              </div>
             </CardContent>
           </Card>
 
@@ -371,7 +393,7 @@ export default function SpinBlade() {
                 <ul className="space-y-2 max-h-[260px] overflow-auto pr-1">
                   {movies.map((m, i) => (
                     <li key={m.id} className="flex items-center gap-2">
-                      <span className="inline-block h-4 w-4 rounded-sm" style={{ background: m.color }} />
+                      <span className="inline-block h-4 w-4 rounded-sm" style={{ background: patterns ? patternBackground(patternFor(i), m.color) : m.color }} />
                       <span className="flex-1 truncate">{i + 1}. {m.label}</span>
                       <Button variant="ghost" onClick={() => removeMovie(m.id)}>Remove</Button>
                     </li>
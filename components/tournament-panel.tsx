@@ -0,0 +1,47 @@
+import React from 'react';
+import { Button } from './ui/button';
+import type { Tournament } from './wheel-context';
+
+export default function TournamentPanel({ tournament, remaining, isSpinning, onPause, onResume, onEnd }: {
+  tournament: Tournament;
+  remaining: number;
+  isSpinning: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onEnd: () => void;
+}) {
+  const { status, eliminated, survivor } = tournament;
+  const last = eliminated[eliminated.length - 1];
+
+  let headline: string;
+  if (status === 'done') headline = survivor ? `${survivor.label} is the last one standing` : 'No movies left in the tournament';
+  else if (status === 'paused') headline = `Paused with ${remaining} left`;
+  else if (isSpinning) headline = `Round ${eliminated.length + 1}: spinning…`;
+  else headline = last ? `${last.label} is out, ${remaining} left` : 'Starting…';
+
+  return (
+    <div className="w-full max-w-md rounded-xl border bg-card text-card-foreground shadow-sm p-4 flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <div className="flex min-w-0 flex-1 flex-col">
+          <span className="text-xs uppercase tracking-wide text-muted-foreground">Tournament</span>
+          <span className="font-semibold break-words" role="status" aria-live="polite">{headline}</span>
+        </div>
+        {status === 'running' && <Button variant="secondary" size="sm" onClick={onPause}>Pause</Button>}
+        {status === 'paused' && <Button size="sm" onClick={onResume}>Resume</Button>}
+        <Button variant="ghost" size="sm" onClick={onEnd} disabled={isSpinning}>{status === 'done' ? 'Done' : 'Stop'}</Button>
+      </div>
+
+      {eliminated.length > 0 && (
+        <ol className="max-h-48 overflow-auto space-y-1 text-sm" aria-label="Elimination order">
+          {eliminated.map((s, i) => (
+            <li key={s.id} className="flex items-center gap-2 text-muted-foreground">
+              <span className="w-6 text-right tabular-nums">{i + 1}.</span>
+              <span className="inline-block h-3 w-3 rounded-sm border" style={{ background: s.color }} aria-hidden />
+              <span className="truncate line-through">{s.label}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
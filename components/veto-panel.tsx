@@ -0,0 +1,43 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import type { VetoWindow } from './wheel-context';
+import { vetoesLeft, type VetoSettings, type VetoUsage } from '@/lib/veto';
+
+export default function VetoPanel({ vetoWindow, veto, vetoesUsed, onVeto, onAccept }: {
+  vetoWindow: VetoWindow;
+  veto: VetoSettings;
+  vetoesUsed: VetoUsage;
+  onVeto: (participant: string) => void;
+  onAccept: () => void;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((vetoWindow.endsAt - now) / 1000));
+
+  return (
+    <div className="w-full max-w-md rounded-xl border bg-card text-card-foreground shadow-sm p-4 flex flex-col gap-3" role="alert">
+      <div className="flex items-center gap-2">
+        <p className="flex-1 font-semibold break-words">Anyone want to veto {vetoWindow.slice.label}?</p>
+        <span className="text-sm tabular-nums text-muted-foreground" aria-label={`${secondsLeft} seconds left`}>{secondsLeft}s</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {veto.participants.map(p => {
+          const left = vetoesLeft(veto, vetoesUsed, p);
+          return (
+            <Button key={p} variant="outline" size="sm" onClick={() => onVeto(p)} disabled={left === 0}>
+              {p} vetoes ({left} left)
+            </Button>
+          );
+        })}
+        <Button size="sm" onClick={onAccept}>Keep it</Button>
+      </div>
+    </div>
+  );
+}
@@ -2,47 +2,218 @@
 
 import React, { createContext, useContext, useEffect, useLayoutEffect, useMemo, useRef, useState, useCallback } from "react";
 import { useTheme } from "next-themes";
+import { defaultSlices, normalizeWeight, pickColor, sanitizeMeta, uid, type Slice } from "@/lib/slices";
+import { BUILT_IN_PALETTES, DEFAULT_PALETTE_ID, createPalette, findPalette, nextColor, spreadColors, textColorFor, type Palette } from "@/lib/palettes";
+import { DEFAULT_WHEEL_NAME, HISTORY_LIMIT, createWheel, loadWheelState, saveWheelState, saveWheelStateNow, savedByNewerVersion, type SavedWheel, type SpinRecord, type WheelState } from "@/lib/wheel-storage";
+import { EMPTY_FILTER, isFilterActive, matchesFilter, type SliceFilter } from "@/lib/slice-filter";
+import {
+  CELEBRATION_MS, celebrationPulse, clearConfetti, drawConfetti, makeConfetti, sizeConfettiLayer, type Particle,
+} from "@/lib/celebration";
+import { prefersReducedMotion } from "@/lib/motion";
+import { flickMotion } from "@/lib/flick";
+import { DEFAULT_SPIN_PROFILE, planSpin, type SpinProfileSettings } from "@/lib/spin-profiles";
+import { MAX_POSTER_BYTES, posterBytes, posterImage } from "@/lib/images";
+import { DEFAULT_SOUND_PACK, MAX_TICK_SECS, SOUND_PACKS, customBuffer, forgetBuffer, playBuffer, type CustomSounds, type SoundKind, type SoundPackId } from "@/lib/sound-packs";
+import { canvasPattern, patternFor, usePatterns } from "@/lib/patterns";
+import { drawLabel, layoutLabel, measureContext, type LabelStyle } from "@/lib/wheel-labels";
+import { tallyLeaders, tallySpins } from "@/lib/tally";
+import { canAnyoneVeto, DEFAULT_VETO, vetoesLeft, type VetoSettings, type VetoUsage } from "@/lib/veto";
+import { findSimilarSlice, type TitleMatch } from "@/lib/titles";
+import { fileNameFor, parseWheelFile, serializeWheel } from "@/lib/wheel-file";
+import { applyImportPlan, slicesToCSV, type ImportAction } from "@/lib/slice-import";
+import { buildShareUrl, clearShareHash, decodeWheel, readShareHash } from "@/lib/wheel-share";
 
 interface WindowWithWebkitAudio {
   webkitAudioContext?: typeof AudioContext;
 }
 
-type Slice = { id: string; label: string; color: string; };
+type Arc = { start: number; end: number; };
 
-const DEFAULT_COLORS = [
-  "#22c55e", "#3b82f6", "#f59e0b", "#ef4444", "#a855f7", "#14b8a6",
-  "#eab308", "#f97316", "#06b6d4", "#84cc16", "#ec4899", "#8b5cf6"
-];
+export type ImportStatus =
+  | { kind: "success"; message: string; }
+  | { kind: "error"; message: string; details: string[]; };
 
-function uid() {
-  return Math.random().toString(36).slice(2, 9);
+// An elimination run: the wheel keeps spinning and drops whatever it lands on until one slice is left.
+export type Tournament = {
+  status: "running" | "paused" | "done";
+  eliminated: Slice[];
+  survivor: Slice | null;
+  startedAt: number;
+};
+
+// Changes to one slice, or a function of its latest state for edits that finish asynchronously.
+export type SliceUpdate = Partial<Omit<Slice, "id">> | ((slice: Slice) => Partial<Omit<Slice, "id">>);
+
+// The open chance to veto a pick. Removal (in removal mode) waits until the window closes unvetoed.
+export type VetoWindow = { slice: Slice; recordId: string; endsAt: number; };
+
+type Celebration = { slice: Slice; start: number; reduced: boolean; particles: Particle[]; };
+
+// The wheel at rest, painted by `paint` at `dpr`; `outline` is the theme color for the winner's outline.
+type WheelBitmap = { canvas: HTMLCanvasElement; dpr: number; outline: string; paint: unknown; };
+
+// A best-of-N run: N spins, most landings wins. A tie is settled by one more spin over only the tied slices.
+export type BestOf = {
+  status: "running" | "done";
+  total: number;
+  spins: Slice[];
+  tied: Slice[] | null;
+  winner: Slice | null;
+  startedAt: number;
+};
+
+// Each slice gets an arc proportional to its share of the total weight.
+function sliceArcs(slices: Slice[]): Arc[] {
+  const total = slices.reduce((sum, s) => sum + s.weight, 0);
+  const arcs: Arc[] = [];
+  let start = 0;
+  for (const s of slices) {
+    const size = total > 0 ? (s.weight / total) * 2 * Math.PI : 0;
+    arcs.push({ start, end: start + size });
+    start += size;
+  }
+  return arcs;
+}
+
+// Draws `image` scaled to cover the wedge from `start` to `end`, upright along its bisector, and clipped to it.
+function drawWedgeImage(ctx: CanvasRenderingContext2D, image: HTMLImageElement, start: number, end: number, radius: number) {
+  const sweep = end - start;
+  const width = sweep >= Math.PI ? 2 * radius : 2 * radius * Math.sin(sweep / 2);
+  const scale = Math.max(width / image.naturalWidth, radius / image.naturalHeight);
+  const w = image.naturalWidth * scale;
+  const h = image.naturalHeight * scale;
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.arc(0, 0, radius, start, end);
+  ctx.closePath();
+  ctx.clip();
+  // Turned so "up" points out of the wheel along the bisector; the top of the image meets the rim.
+  ctx.rotate((start + end) / 2 + Math.PI / 2);
+  ctx.drawImage(image, -w / 2, -radius, w, h);
+  ctx.restore();
+}
+
+// A random pointer angle (relative to the wheel) inside one of the eligible arcs. Picking uniformly
+// over the eligible arc length keeps landing odds proportional to slice weight.
+function pickLandingAngle(arcs: Arc[], eligible: boolean[]) {
+  const total = arcs.reduce((sum, a, i) => sum + (eligible[i] ? a.end - a.start : 0), 0);
+  let r = Math.random() * total;
+  for (let i = 0; i < arcs.length; i++) {
+    if (!eligible[i]) continue;
+    const size = arcs[i].end - arcs[i].start;
+    if (r < size) {
+      // Stay clear of the borders so the pointer visibly sits inside the wedge.
+      const margin = Math.min(size * 0.1, 0.02);
+      return arcs[i].start + margin + (r / size) * (size - 2 * margin);
+    }
+    r -= size;
+  }
+  return 0;
 }
 
-function pickColor(i: number) {
-  return DEFAULT_COLORS[i % DEFAULT_COLORS.length];
+// Index of the slice under the 12 o'clock pointer for a given wheel rotation.
+function indexAtPointer(rotation: number, arcs: Arc[]) {
+  if (arcs.length === 0) return -1;
+  const TAU = 2 * Math.PI;
+  const rotNorm = ((rotation % TAU) + TAU) % TAU;
+  const pointer = -Math.PI / 2; // 12 o'clock
+  const relative = ((pointer - rotNorm) + TAU) % TAU;
+  const eps = 1e-6;
+  const a = ((relative - eps) + TAU) % TAU;
+  for (let i = 0; i < arcs.length; i++) {
+    if (a < arcs[i].end) return i;
+  }
+  return arcs.length - 1;
+}
+
+const UNDO_LIMIT = 100;
+// Saving waits for a pause in changes rather than running on every keystroke.
+const SAVE_DELAY_MS = 400;
+
+// With reduced motion a spin doesn't rotate: the wheel waits this long, then shows where it landed.
+const REDUCED_REVEAL_MS = 700;
+// Screen readers can't keep up with every slice passing, so "Now passing" changes at most this often.
+const PASSING_ANNOUNCE_MS = 800;
+const HUB_RADIUS = 28;
+
+function downloadFile(name: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = name; a.click();
+  URL.revokeObjectURL(url);
 }
 
-function easeOutCubic(t: number) {
-  return 1 - Math.pow(1 - t, 3);
+// Position under constant deceleration, which is what a flicked wheel slowing by friction follows.
+function easeOutQuad(t: number) {
+  return 1 - (1 - t) * (1 - t);
 }
 
 type WheelContextType = {
   slices: Slice[];
-  addSlice: () => void;
+  wheelSlices: Slice[];
+  eligible: boolean[];
+  passing: Slice | null;
+  addSlice: (options?: { allowDuplicate?: boolean }) => void;
+  newLabelMatch: TitleMatch | null;
+  mergeNewLabel: () => void;
   removeSlice: (id: string) => void;
+  updateSlice: (id: string, patch: SliceUpdate, coalesceKey?: string) => void;
+  // Throws when the poster would take saved posters over MAX_POSTER_BYTES.
+  setPoster: (id: string, poster: string | undefined) => void;
+  moveSlice: (id: string, toIndex: number) => void;
   clearAll: () => void;
   shuffleColors: () => void;
+  palettes: Palette[];
+  paletteId: string;
+  setPaletteId: (id: string) => void;
+  applyPalette: () => void;
+  savePalette: (name: string, colors: string[]) => void;
+  deletePalette: (id: string) => void;
   exportJSON: () => void;
   importJSON: (f: File) => void;
+  importStatus: ImportStatus | null;
+  dismissImportStatus: () => void;
+  exportCSV: () => void;
+  applyImport: (plan: ImportAction[]) => void;
   radius: number;
   setRadius: (n: number) => void;
   spinSecs: number;
   setSpinSecs: (n: number) => void;
   removalMode: boolean;
   setRemovalMode: (b: boolean) => void;
+  filter: SliceFilter;
+  setFilter: (f: SliceFilter) => void;
+  eligibleCount: number;
+  roundPauseSecs: number;
+  setRoundPauseSecs: (n: number) => void;
+  bestOfSpins: number;
+  setBestOfSpins: (n: number) => void;
+  spinProfile: SpinProfileSettings;
+  setSpinProfile: (p: SpinProfileSettings) => void;
+  labelStyle: LabelStyle;
+  setLabelStyle: (s: LabelStyle) => void;
   isSpinning: boolean;
-  winner: string | null;
+  winner: Slice | null;
   spin: () => void;
+  flick: (velocity: number) => void;
+  rotateBy: (delta: number) => void;
+  tournament: Tournament | null;
+  startTournament: () => void;
+  pauseTournament: () => void;
+  resumeTournament: () => void;
+  endTournament: () => void;
+  bestOf: BestOf | null;
+  startBestOf: () => void;
+  endBestOf: () => void;
+  veto: VetoSettings;
+  setVeto: (v: VetoSettings) => void;
+  vetoesUsed: VetoUsage;
+  vetoWindow: VetoWindow | null;
+  vetoWinner: (participant: string) => void;
+  acceptWinner: () => void;
+  resetVetoes: () => void;
   newLabel: string;
   setNewLabel: (s: string) => void;
   newColor: string;
@@ -51,8 +222,40 @@ type WheelContextType = {
   setMuted: (b: boolean) => void;
   volume: number;
   setVolume: (n: number) => void;
+  soundPack: SoundPackId;
+  setSoundPack: (p: SoundPackId) => void;
+  customSounds: CustomSounds;
+  setCustomSound: (kind: SoundKind, src: string | null) => void;
+  previewSound: (kind: SoundKind) => void;
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  confettiRef: React.RefObject<HTMLCanvasElement | null>;
+  celebrating: boolean;
+  skipCelebration: () => void;
   canvasShown: boolean;
+  hydrated: boolean;
+  // The last save failed, usually because browser storage is full.
+  saveFailed: boolean;
+  // Saved data is from a newer version of the app, so nothing is saved over it.
+  newerSave: boolean;
+  wheels: SavedWheel[];
+  activeWheelId: string;
+  createWheel: (name?: string) => void;
+  renameWheel: (id: string, name: string) => void;
+  duplicateWheel: (id: string) => void;
+  deleteWheel: (id: string) => void;
+  switchWheel: (id: string) => void;
+  sharedWheel: SavedWheel | null;
+  acceptSharedWheel: () => void;
+  dismissSharedWheel: () => void;
+  copyShareLink: () => Promise<boolean>;
+  history: SpinRecord[];
+  clearHistory: () => void;
+  exportHistory: () => void;
+  restoreFromHistory: (recordId: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 };
 
 const WheelContext = createContext<WheelContextType | null>(null);
@@ -64,22 +267,55 @@ export function useWheel() {
 }
 
 export function WheelProvider({ children }: { children: React.ReactNode; }) {
-  const [slices, setSlices] = useState<Slice[]>([
-    { id: uid(), label: "Inception", color: pickColor(0) },
-    { id: uid(), label: "The Matrix", color: pickColor(1) },
-    { id: uid(), label: "Spirited Away", color: pickColor(2) }
-  ]);
+  const [slices, setSlices] = useState<Slice[]>(defaultSlices);
   const [newLabel, setNewLabel] = useState("");
   const [newColor, setNewColor] = useState(pickColor(3));
   const [radius, setRadius] = useState(320);
   const [spinSecs, setSpinSecs] = useState(5);
   const [removalMode, setRemovalMode] = useState(false);
+  const [filter, setFilter] = useState<SliceFilter>(EMPTY_FILTER);
+  const [roundPauseSecs, setRoundPauseSecs] = useState(2);
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [bestOfSpins, setBestOfSpins] = useState(3);
+  const [bestOf, setBestOf] = useState<BestOf | null>(null);
+  const [veto, setVeto] = useState<VetoSettings>(DEFAULT_VETO);
+  const [spinProfile, setSpinProfile] = useState<SpinProfileSettings>(DEFAULT_SPIN_PROFILE);
+  const [labelStyle, setLabelStyle] = useState<LabelStyle>("straight");
+  const [vetoesUsed, setVetoesUsed] = useState<VetoUsage>({});
+  const [vetoWindow, setVetoWindow] = useState<VetoWindow | null>(null);
+  // Slices sitting out after a veto, until the vetoes are reset.
+  const [vetoedIds, setVetoedIds] = useState<string[]>([]);
+  const [respinQueued, setRespinQueued] = useState(false);
   const [isSpinning, setIsSpinning] = useState(false);
-  const [winner, setWinner] = useState<string | null>(null);
+  const [winner, setWinner] = useState<Slice | null>(null);
+
+  // Library of named wheels. The active wheel's slices and settings live in the state above;
+  // its entry here is only brought up to date when saving or leaving it (see `snapshotWheels`).
+  const [wheels, setWheels] = useState<SavedWheel[]>(() => [{ ...createWheel(DEFAULT_WHEEL_NAME), id: "default" }]);
+  const [activeWheelId, setActiveWheelId] = useState("default");
+  // A wheel opened from a share link, waiting for the user to load or dismiss it.
+  const [sharedWheel, setSharedWheel] = useState<SavedWheel | null>(null);
+  const [history, setHistory] = useState<SpinRecord[]>([]);
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+
+  // Undo/redo snapshots of `slices`. Every list mutation goes through `commitSlices`.
+  const [undoStack, setUndoStack] = useState<Slice[][]>([]);
+  const [redoStack, setRedoStack] = useState<Slice[][]>([]);
+  const lastCommitKeyRef = useRef<string | null>(null);
+  // The latest slices, including a commit that hasn't rendered yet, for updates that land after an await.
+  const slicesRef = useRef(slices);
+  slicesRef.current = slices;
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [canvasShown, setCanvasShown] = useState(false);
   const canvasShownRef = useRef(false);
+  const confettiRef = useRef<HTMLCanvasElement | null>(null);
+  const celebrationRef = useRef<Celebration | null>(null);
+  const wheelBitmapRef = useRef<WheelBitmap | null>(null);
+  const cancelCelebrationRef = useRef<(() => void) | null>(null);
+  const [celebrating, setCelebrating] = useState(false);
+  const [passing, setPassing] = useState<Slice | null>(null);
+  const passingAtRef = useRef(0);
 
   const rotationRef = useRef(0);
   const audioRef = useRef<AudioContext | null>(null);
@@ -88,24 +324,114 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
 
   const [muted, setMuted] = useState<boolean>(false);
   const [volume, setVolume] = useState<number>(0.6);
+  const [soundPack, setSoundPack] = useState<SoundPackId>(DEFAULT_SOUND_PACK);
+  const [customSounds, setCustomSounds] = useState<CustomSounds>({});
+  const [customPalettes, setCustomPalettes] = useState<Palette[]>([]);
+  const [paletteId, setPaletteId] = useState(DEFAULT_PALETTE_ID);
+  const palette = findPalette(paletteId, customPalettes);
+  const patterns = usePatterns();
+  // Read through a ref by applyWheel, which also runs from the mount effect.
+  const paletteColorsRef = useRef(palette.colors);
+  paletteColorsRef.current = palette.colors;
 
   const { resolvedTheme } = useTheme();
 
-  const angle = useMemo(() => (slices.length ? (2 * Math.PI) / slices.length : 0), [slices.length]);
+  // The slices actually on the canvas (filtered ones can be hidden, tournament losers and vetoed picks
+  // are taken off) and which of them a spin may land on (only the tied ones during a best-of tie-breaker).
+  const eliminated = tournament?.eliminated;
+  const tied = bestOf?.tied;
+  const { wheelSlices, eligible, eligibleCount } = useMemo(() => {
+    const out = new Set([...(eliminated?.map(s => s.id) ?? []), ...vetoedIds]);
+    const inPlay = out.size ? slices.filter(s => !out.has(s.id)) : slices;
+    const active = isFilterActive(filter);
+    const tiedIds = tied ? new Set(tied.map(s => s.id)) : null;
+    const matches = inPlay.map(s => (!active || matchesFilter(s, filter)) && (!tiedIds || tiedIds.has(s.id)));
+    const shown = active && filter.hideExcluded && !tiedIds ? inPlay.filter((_, i) => matches[i]) : inPlay;
+    return {
+      wheelSlices: shown,
+      eligible: shown === inPlay ? matches : shown.map(() => true),
+      eligibleCount: matches.filter(Boolean).length,
+    };
+  }, [slices, filter, eliminated, tied, vetoedIds]);
+
+  const arcs = useMemo(() => sliceArcs(wheelSlices), [wheelSlices]);
+
+  // The server render always uses the defaults; saved state is applied after mount so hydration matches.
+  const [hydrated, setHydrated] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [newerSave, setNewerSave] = useState(false);
+  // State waiting to be saved, until its save has finished.
+  const pendingSaveRef = useRef<WheelState | null>(null);
 
   useEffect(() => {
-    try {
-      const m = localStorage.getItem('movieWheel.sound.muted');
-      const v = localStorage.getItem('movieWheel.sound.volume');
-      if (m !== null) setMuted(m === 'true');
-      if (v !== null) setVolume(Number(v));
-    } catch (e) {
-      console.error("Error loading sound preferences:", e);
-    }
+    let cancelled = false;
+    loadWheelState().then(saved => {
+      if (cancelled) return;
+      if (savedByNewerVersion()) setNewerSave(true);
+      if (saved) {
+        const active = saved.wheels?.find(w => w.id === saved.activeId);
+        if (saved.wheels && active) {
+          setWheels(saved.wheels);
+          setActiveWheelId(active.id);
+          applyWheel(active);
+        }
+        if (saved.history) setHistory(saved.history);
+        if (saved.muted !== undefined) setMuted(saved.muted);
+        if (saved.volume !== undefined) setVolume(saved.volume);
+        if (saved.palettes) setCustomPalettes(saved.palettes);
+        if (saved.paletteId) setPaletteId(saved.paletteId);
+        if (saved.soundPack) setSoundPack(saved.soundPack);
+        if (saved.customSounds) setCustomSounds(saved.customSounds);
+      }
+      setHydrated(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const snapshotWheels = useCallback(() => {
+    return wheels.map(w => (w.id === activeWheelId ? { ...w, slices, radius, spinSecs, removalMode, filter, roundPauseSecs, bestOfSpins, veto, spinProfile, labelStyle } : w));
+  }, [wheels, activeWheelId, slices, radius, spinSecs, removalMode, filter, roundPauseSecs, bestOfSpins, veto, spinProfile, labelStyle]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    const readShared = () => {
+      const encoded = readShareHash();
+      if (!encoded) return;
+      decodeWheel(encoded).then(w => {
+        if (w) setSharedWheel(w);
+        else clearShareHash();
+      });
+    };
+    readShared();
+    window.addEventListener("hashchange", readShared);
+    return () => window.removeEventListener("hashchange", readShared);
+  }, [hydrated]);
+
+  useEffect(() => {
+    if (!hydrated || newerSave) return;
+    const state: WheelState = { wheels: snapshotWheels(), activeId: activeWheelId, history, muted, volume, palettes: customPalettes, paletteId, soundPack, customSounds };
+    pendingSaveRef.current = state;
+    const timer = setTimeout(() => {
+      saveWheelState(state).then(ok => {
+        if (pendingSaveRef.current === state) pendingSaveRef.current = null;
+        setSaveFailed(!ok);
+      });
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [hydrated, newerSave, snapshotWheels, activeWheelId, history, muted, volume, customPalettes, paletteId, soundPack, customSounds]);
+
+  // Don't lose the last change when the page is closed before its save is done.
+  useEffect(() => {
+    const flush = () => {
+      const state = pendingSaveRef.current;
+      pendingSaveRef.current = null;
+      if (state) saveWheelStateNow(state);
+    };
+    window.addEventListener("pagehide", flush);
+    return () => window.removeEventListener("pagehide", flush);
   }, []);
 
   useEffect(() => {
-    try { localStorage.setItem('movieWheel.sound.muted', String(muted)); } catch (e) { console.error("Error saving sound preferences:", e); }
     if (masterGainRef.current && audioRef.current) {
       const ctx = audioRef.current;
       const g = masterGainRef.current;
@@ -114,83 +440,328 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
     }
   }, [muted, volume]);
 
-  function addSlice() {
+  // `coalesceKey` folds consecutive edits of the same kind (dragging through a color picker) into one undo step.
+  // `next` may be a function of the latest slices; returning them unchanged commits nothing.
+  function commitSlices(next: Slice[] | ((current: Slice[]) => Slice[]), coalesceKey?: string) {
+    const current = slicesRef.current;
+    const updated = typeof next === "function" ? next(current) : next;
+    if (updated === current) return;
+    if (!coalesceKey || coalesceKey !== lastCommitKeyRef.current) {
+      setUndoStack(prev => [...prev, current].slice(-UNDO_LIMIT));
+    }
+    lastCommitKeyRef.current = coalesceKey ?? null;
+    setRedoStack([]);
+    slicesRef.current = updated;
+    setSlices(updated);
+  }
+
+  function undo() {
+    if (isSpinning || undoStack.length === 0) return;
+    setUndoStack(undoStack.slice(0, -1));
+    setRedoStack(prev => [...prev, slicesRef.current]);
+    lastCommitKeyRef.current = null;
+    slicesRef.current = undoStack[undoStack.length - 1];
+    setSlices(slicesRef.current);
+  }
+
+  function redo() {
+    if (isSpinning || redoStack.length === 0) return;
+    setRedoStack(redoStack.slice(0, -1));
+    setUndoStack(prev => [...prev, slicesRef.current]);
+    lastCommitKeyRef.current = null;
+    slicesRef.current = redoStack[redoStack.length - 1];
+    setSlices(slicesRef.current);
+  }
+
+  function applyWheel(w: SavedWheel) {
+    setSlices(w.slices);
+    setUndoStack([]);
+    setRedoStack([]);
+    lastCommitKeyRef.current = null;
+    setRadius(w.radius);
+    setSpinSecs(w.spinSecs);
+    setRemovalMode(w.removalMode);
+    setFilter(w.filter);
+    setRoundPauseSecs(w.roundPauseSecs);
+    setBestOfSpins(w.bestOfSpins);
+    setVeto(w.veto);
+    setSpinProfile(w.spinProfile);
+    setLabelStyle(w.labelStyle);
+    setNewColor(nextColor(w.slices.map(s => s.color), paletteColorsRef.current));
+    setWinner(null);
+    setTournament(null);
+    setBestOf(null);
+    setVetoWindow(null);
+    setVetoedIds([]);
+  }
+
+  function switchWheel(id: string) {
+    if (isSpinning || id === activeWheelId) return;
+    const next = snapshotWheels();
+    const target = next.find(w => w.id === id);
+    if (!target) return;
+    setWheels(next);
+    setActiveWheelId(id);
+    applyWheel(target);
+  }
+
+  function createNamedWheel(name?: string) {
+    if (isSpinning) return;
+    const w = createWheel(name?.trim() || `Wheel ${wheels.length + 1}`);
+    setWheels([...snapshotWheels(), w]);
+    setActiveWheelId(w.id);
+    applyWheel(w);
+  }
+
+  function renameWheel(id: string, name: string) {
+    setWheels(prev => prev.map(w => (w.id === id ? { ...w, name } : w)));
+  }
+
+  function duplicateWheel(id: string) {
+    if (isSpinning) return;
+    const next = snapshotWheels();
+    const source = next.find(w => w.id === id);
+    if (!source) return;
+    const copy: SavedWheel = {
+      ...source,
+      id: uid(),
+      name: `${source.name} copy`,
+      slices: source.slices.map(s => ({ ...s, id: uid() })),
+    };
+    next.splice(next.indexOf(source) + 1, 0, copy);
+    setWheels(next);
+    setActiveWheelId(copy.id);
+    applyWheel(copy);
+  }
+
+  function deleteWheel(id: string) {
+    if (isSpinning || wheels.length <= 1) return;
+    const next = snapshotWheels();
+    const idx = next.findIndex(w => w.id === id);
+    if (idx === -1) return;
+    next.splice(idx, 1);
+    setWheels(next);
+    if (id === activeWheelId) {
+      const fallback = next[Math.min(idx, next.length - 1)];
+      setActiveWheelId(fallback.id);
+      applyWheel(fallback);
+    }
+  }
+
+  // Shared wheels are added to the library as a new entry so the local wheels stay untouched.
+  function acceptSharedWheel() {
+    if (isSpinning || !sharedWheel) return;
+    setWheels([...snapshotWheels(), sharedWheel]);
+    setActiveWheelId(sharedWheel.id);
+    applyWheel(sharedWheel);
+    setSharedWheel(null);
+    clearShareHash();
+  }
+
+  function dismissSharedWheel() {
+    setSharedWheel(null);
+    clearShareHash();
+  }
+
+  async function copyShareLink() {
+    const active = snapshotWheels().find(w => w.id === activeWheelId);
+    if (!active) return false;
+    try {
+      await navigator.clipboard.writeText(await buildShareUrl(active));
+      return true;
+    } catch (e) {
+      console.error("Error copying share link:", e);
+      return false;
+    }
+  }
+
+  // An existing slice that the title being typed duplicates; adding is refused until the user merges or insists.
+  const newLabelMatch = useMemo(() => findSimilarSlice(newLabel, slices), [newLabel, slices]);
+
+  function addSlice(options?: { allowDuplicate?: boolean }) {
     const label = newLabel.trim();
     if (!label) return;
-    setSlices(prev => [...prev, { id: uid(), label, color: newColor }]);
+    if (newLabelMatch && !options?.allowDuplicate) return;
+    const next = [...slices, { id: uid(), label, color: newColor, weight: 1 }];
+    commitSlices(next);
     setNewLabel("");
-    setNewColor(pickColor(slices.length));
+    setNewColor(nextColor(next.map(s => s.color), palette.colors));
   }
 
+  // Folding a duplicate into the existing slice gives it one more share of the wheel.
+  function mergeNewLabel() {
+    if (!newLabelMatch) return;
+    const target = newLabelMatch.slice;
+    commitSlices(slices.map(s => (s.id === target.id ? { ...s, weight: normalizeWeight(s.weight + 1) } : s)));
+    setNewLabel("");
+  }
+
+  // Works on the latest slices, so removals that land after a spin or veto window keep edits made meanwhile.
   function removeSlice(id: string) {
-    setSlices(prev => prev.filter(s => s.id !== id));
+    commitSlices(current => (current.some(s => s.id === id) ? current.filter(s => s.id !== id) : current));
+  }
+
+  // Each call is its own undo step unless the caller passes a `coalesceKey` for a continuous edit.
+  function updateSlice(id: string, patch: SliceUpdate, coalesceKey?: string) {
+    commitSlices(current => {
+      const slice = current.find(s => s.id === id);
+      if (!slice) return current;
+      const next = { ...(typeof patch === "function" ? patch(slice) : patch) };
+      if (next.weight !== undefined) next.weight = normalizeWeight(next.weight);
+      if (next.label !== undefined) {
+        next.label = next.label.trim();
+        if (!next.label) return current;
+      }
+      if ("meta" in next) next.meta = sanitizeMeta(next.meta);
+      return current.map(s => (s.id === id ? { ...s, ...next } : s));
+    }, coalesceKey);
+  }
+
+  function setPoster(id: string, poster: string | undefined) {
+    if (poster) {
+      const kept = [
+        ...wheels.filter(w => w.id !== activeWheelId).flatMap(w => w.slices),
+        ...slicesRef.current.filter(s => s.id !== id),
+        ...history.map(r => r.slice),
+      ];
+      if (posterBytes([...kept.map(s => s.meta?.poster), poster]) > MAX_POSTER_BYTES) {
+        throw new Error(`Posters are limited to ${MAX_POSTER_BYTES / 1024 / 1024} MB in all; remove some, or clear the spin history, first`);
+      }
+    }
+    updateSlice(id, s => ({ meta: { ...s.meta, poster } }));
+  }
+
+  function moveSlice(id: string, toIndex: number) {
+    const from = slices.findIndex(s => s.id === id);
+    const to = Math.max(0, Math.min(slices.length - 1, toIndex));
+    if (from === -1 || from === to) return;
+    const next = slices.slice();
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    commitSlices(next);
   }
 
   function clearAll() {
-    setSlices([]);
+    if (slices.length) commitSlices([]);
     setWinner(null);
   }
 
+  // Colors are spread over the wheel as drawn, so slices that are neighbours there never share one,
+  // the last and first included. Slices off the wheel (hidden by the filter, knocked out or vetoed)
+  // still get palette colors, but may match a neighbour when they come back.
+  function recolor(shuffle: boolean) {
+    const shown = spreadColors(wheelSlices.length, palette.colors, shuffle);
+    const byId = new Map(wheelSlices.map((s, i) => [s.id, shown[i]]));
+    const rest = byId.size < slices.length ? spreadColors(slices.length, palette.colors, shuffle) : [];
+    commitSlices(slices.map((s, i) => ({ ...s, color: byId.get(s.id) ?? rest[i] })));
+  }
+
   function shuffleColors() {
-    setSlices(prev => prev.map((s, i) => ({ ...s, color: pickColor(i + Math.floor(Math.random() * DEFAULT_COLORS.length)) })));
+    recolor(true);
+  }
+
+  // Recolors the wheel with the palette in order.
+  function applyPalette() {
+    recolor(false);
+  }
+
+  function selectPalette(id: string) {
+    const next = findPalette(id, customPalettes);
+    setPaletteId(next.id);
+    setNewColor(nextColor(slices.map(s => s.color), next.colors));
+  }
+
+  function savePalette(name: string, colors: string[]) {
+    if (!colors.length) return;
+    const created = createPalette(name, colors);
+    setCustomPalettes(prev => [...prev, created]);
+    setPaletteId(created.id);
+  }
+
+  function deletePalette(id: string) {
+    setCustomPalettes(prev => prev.filter(p => p.id !== id));
+    if (paletteId === id) setPaletteId(DEFAULT_PALETTE_ID);
   }
 
   function exportJSON() {
-    const blob = new Blob([JSON.stringify(slices, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url; a.download = "movie-wheel.json"; a.click();
-    URL.revokeObjectURL(url);
+    const active = snapshotWheels().find(w => w.id === activeWheelId);
+    if (!active) return;
+    downloadFile(fileNameFor(active.name), serializeWheel(active), "application/json");
   }
 
+  function exportCSV() {
+    downloadFile("movie-wheel.csv", slicesToCSV(slices), "text/csv");
+  }
+
+  function applyImport(plan: ImportAction[]) {
+    if (isSpinning || !plan.some(a => a.kind !== "skip")) return;
+    const next = applyImportPlan(slices, plan, palette.colors);
+    commitSlices(next);
+    setNewColor(nextColor(next.map(s => s.color), palette.colors));
+  }
+
+  function clearHistory() {
+    setHistory([]);
+  }
+
+  function exportHistory() {
+    downloadFile("spin-history.json", JSON.stringify(history, null, 2), "application/json");
+  }
+
+  // Put a slice that removal mode took off the wheel back at the end of the current wheel.
+  function restoreFromHistory(recordId: string) {
+    if (isSpinning) return;
+    const record = history.find(r => r.id === recordId);
+    if (!record || !record.removed) return;
+    if (slices.some(s => s.id === record.slice.id)) return;
+    commitSlices([...slices, record.slice]);
+  }
+
+  // Replaces the active wheel's slices (undoable) and applies any settings the file carries.
   function importJSON(file: File) {
+    if (isSpinning) return;
     const reader = new FileReader();
     reader.onload = () => {
-      try {
-        const data = JSON.parse(String(reader.result)) as Slice[];
-        if (Array.isArray(data) && data.every(d => typeof d.label === "string" && typeof d.color === "string")) {
-          const normalized = data.map((d, i) => ({ id: uid(), label: d.label, color: d.color || pickColor(i) }));
-          setSlices(normalized);
-        }
-      } catch { }
+      const result = parseWheelFile(String(reader.result));
+      if (!result.ok) {
+        setImportStatus({ kind: "error", message: `Couldn't import ${file.name}`, details: result.errors });
+        return;
+      }
+      const { wheel } = result;
+      commitSlices(wheel.slices);
+      if (wheel.settings.radius !== undefined) setRadius(wheel.settings.radius);
+      if (wheel.settings.spinSecs !== undefined) setSpinSecs(wheel.settings.spinSecs);
+      if (wheel.settings.removalMode !== undefined) setRemovalMode(wheel.settings.removalMode);
+      setNewColor(nextColor(wheel.slices.map(s => s.color), palette.colors));
+      setWinner(null);
+      const from = wheel.name ? ` from “${wheel.name}”` : "";
+      const legacy = wheel.migratedFrom !== null ? " (converted from an older export)" : "";
+      setImportStatus({ kind: "success", message: `Imported ${wheel.slices.length} movies${from}${legacy}.` });
+    };
+    reader.onerror = () => {
+      setImportStatus({ kind: "error", message: `Couldn't read ${file.name}`, details: [String(reader.error?.message ?? "Unknown error")] });
     };
     reader.readAsText(file);
   }
 
-  const wrapRightAlignedText = useCallback((ctx: CanvasRenderingContext2D, text: string, maxWidth: number, padding: number) => {
-    const words = text.split(" ");
-    let line = "";
-    const lines: string[] = [];
-    for (const w of words) {
-      const test = line ? line + " " + w : w;
-      if (ctx.measureText(test).width > maxWidth) {
-        if (line) lines.push(line);
-        line = w;
-      } else {
-        line = test;
-      }
-    }
-    if (line) lines.push(line);
-    let y = 4;
-    for (let i = 0; i < lines.length; i++) {
-      const l = lines[i];
-      ctx.fillText(l, radius - padding, y);
-      y += 16;
-    }
-  }, [radius]);
+  // Label fitting measures text, so it only reruns when the wedges or the style change, not every frame.
+  const labelLayouts = useMemo(() => {
+    const ctx = typeof document === "undefined" ? null : measureContext();
+    if (!ctx) return [];
+    return wheelSlices.map((s, i) => layoutLabel(ctx, s.label, i, arcs[i].end - arcs[i].start, radius, labelStyle));
+  }, [wheelSlices, arcs, radius, labelStyle]);
 
-  const draw = useCallback((rotation: number) => {
+  // Paints the wheel at rest (wedges, labels, hub) into an offscreen canvas. Frames then only rotate this bitmap,
+  // so it is repainted when the slices, filter, size or theme change, not while the wheel turns.
+  const paintWheel = useCallback((dpr: number): Omit<WheelBitmap, "paint"> | null => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    const dpr = window.devicePixelRatio || 1;
+    if (!canvas) return null;
     const size = radius * 2 + 20;
-    canvas.width = size * dpr;
-    canvas.height = size * dpr;
-    canvas.style.width = `${size}px`;
-    canvas.style.height = `${size}px`;
+    const bitmap = document.createElement("canvas");
+    bitmap.width = Math.round(size * dpr);
+    bitmap.height = Math.round(size * dpr);
+    const ctx = bitmap.getContext("2d");
+    if (!ctx) return null;
     ctx.scale(dpr, dpr);
 
     let styleSource: CSSStyleDeclaration;
@@ -204,14 +775,9 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
       styleSource = canvas ? getComputedStyle(canvas) : getComputedStyle(document.documentElement);
     }
 
-    ctx.clearRect(0, 0, size, size);
     ctx.translate(size / 2, size / 2);
 
-    ctx.save();
-    ctx.rotate(rotation);
-
-    if (slices.length === 0) {
-      ctx.rotate(-rotation);
+    if (wheelSlices.length === 0) {
       ctx.fillStyle = styleSource.getPropertyValue('--card') || 'black';
       ctx.beginPath();
       ctx.arc(0, 0, radius, 0, 2 * Math.PI);
@@ -221,21 +787,37 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
       ctx.font = "16px ui-sans-serif, system-ui";
       ctx.textAlign = "center";
       ctx.textBaseline = "middle";
-      ctx.fillText("Add movies to start", 0, 0);
-
-      ctx.restore();
-      return;
+      ctx.fillText(slices.length ? "No movies match the filter" : "Add movies to start", 0, 0);
     }
 
-    for (let i = 0; i < slices.length; i++) {
-      const start = i * angle;
-      const end = start + angle;
+    // Patterns follow the slice list order, so a slice keeps its pattern when others are filtered out.
+    const listIndex = new Map(slices.map((s, i) => [s.id, i]));
+    for (let i = 0; i < wheelSlices.length; i++) {
+      const { start, end } = arcs[i];
+      // Slices the filter excludes stay in place but fade back.
+      ctx.globalAlpha = eligible[i] ? 1 : 0.25;
       ctx.beginPath();
       ctx.moveTo(0, 0);
       ctx.arc(0, 0, radius, start, end);
       ctx.closePath();
-      ctx.fillStyle = slices[i].color;
+      ctx.fillStyle = wheelSlices[i].color;
       ctx.fill();
+      const poster = wheelSlices[i].meta?.poster;
+      // A poster still decoding is skipped for now; the wheel is repainted once it is ready.
+      const image = poster ? posterImage(poster, () => {
+        wheelBitmapRef.current = null;
+        drawRef.current(rotationRef.current);
+      }) : null;
+      const pattern = patterns && !image ? canvasPattern(ctx, patternFor(listIndex.get(wheelSlices[i].id) ?? i), wheelSlices[i].color) : null;
+      if (image) {
+        drawWedgeImage(ctx, image, start, end, radius);
+        // Darken the poster a little so the label on top stays readable.
+        ctx.fillStyle = "rgba(0,0,0,0.35)";
+        ctx.fill();
+      } else if (pattern) {
+        ctx.fillStyle = pattern;
+        ctx.fill();
+      }
 
       ctx.strokeStyle = styleSource.getPropertyValue('--border') || 'rgba(0,0,0,0.6)';
       ctx.lineWidth = 2;
@@ -243,28 +825,106 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
       ctx.arc(0, 0, radius, end, end);
       ctx.stroke();
 
-      const mid = start + angle / 2;
-      ctx.save();
-      ctx.rotate(mid);
-      ctx.textAlign = "right";
-      ctx.fillStyle = styleSource.getPropertyValue('--foreground') || 'black';
-      ctx.font = "bold 14px ui-sans-serif, system-ui";
-      const text = slices[i].label;
-      const maxWidth = radius - 24;
-      wrapRightAlignedText(ctx, text, maxWidth, 8);
-      ctx.restore();
+      const layout = labelLayouts[i];
+      if (layout) {
+        // Black or white, whichever contrasts more with the slice, so labels stay readable in either theme.
+        ctx.save();
+        ctx.fillStyle = image ? "#ffffff" : textColorFor(wheelSlices[i].color);
+        if (image) {
+          ctx.shadowColor = "rgba(0,0,0,0.8)";
+          ctx.shadowBlur = 4;
+        }
+        drawLabel(ctx, layout, (start + end) / 2, radius);
+        ctx.restore();
+      }
     }
+    ctx.globalAlpha = 1;
+
+    if (wheelSlices.length > 0) {
+      ctx.beginPath();
+      ctx.arc(0, 0, HUB_RADIUS, 0, 2 * Math.PI);
+      ctx.fillStyle = styleSource.getPropertyValue('--card') || 'black';
+      ctx.fill();
+      ctx.beginPath();
+      ctx.arc(0, 0, 10, 0, 2 * Math.PI);
+      ctx.fillStyle = styleSource.getPropertyValue('--muted') || 'gray';
+      ctx.fill();
+    }
+
+    return { canvas: bitmap, dpr, outline: styleSource.getPropertyValue('--foreground') || 'black' };
+  }, [slices, wheelSlices, eligible, radius, arcs, labelLayouts, patterns]);
+
+  const draw = useCallback((rotation: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
 
-    ctx.beginPath();
-    ctx.arc(0, 0, 28, 0, 2 * Math.PI);
-    ctx.fillStyle = styleSource.getPropertyValue('--card') || 'black';
-    ctx.fill();
-    ctx.beginPath();
-    ctx.arc(0, 0, 10, 0, 2 * Math.PI);
-    ctx.fillStyle = styleSource.getPropertyValue('--muted') || 'gray';
-    ctx.fill();
+    const dpr = window.devicePixelRatio || 1;
+    const size = radius * 2 + 20;
+    // Resizing clears the canvas and reallocates its backing store, so it only happens when the size changes.
+    const pixels = Math.round(size * dpr);
+    if (canvas.width !== pixels || canvas.height !== pixels) {
+      canvas.width = pixels;
+      canvas.height = pixels;
+      canvas.style.width = `${size}px`;
+      canvas.style.height = `${size}px`;
+    }
 
-    ctx.restore();
+    let bitmap = wheelBitmapRef.current;
+    if (!bitmap || bitmap.paint !== paintWheel || bitmap.dpr !== dpr) {
+      const painted = paintWheel(dpr);
+      if (!painted) return;
+      bitmap = { ...painted, paint: paintWheel };
+      wheelBitmapRef.current = bitmap;
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, pixels, pixels);
+    ctx.setTransform(dpr, 0, 0, dpr, (size / 2) * dpr, (size / 2) * dpr);
+
+    // While celebrating, the winning wedge is pulled out and outlined, the rest dim, and the wheel zooms a little.
+    const party = celebrationRef.current;
+    const pulse = party && !party.reduced ? celebrationPulse(Math.min(1, (performance.now() - party.start) / CELEBRATION_MS)) : 0;
+    const winnerIdx = party ? wheelSlices.findIndex(s => s.id === party.slice.id) : -1;
+    canvas.style.transform = pulse > 0 ? `scale(${1 + 0.04 * pulse})` : "";
+
+    // The empty-wheel message stays upright.
+    if (wheelSlices.length > 0) ctx.rotate(rotation);
+    const stamp = () => ctx.drawImage(bitmap.canvas, -size / 2, -size / 2, size, size);
+
+    if (winnerIdx < 0) {
+      stamp();
+    } else {
+      ctx.globalAlpha = 0.45;
+      stamp();
+      ctx.globalAlpha = 1;
+
+      const { start, end } = arcs[winnerIdx];
+      const mid = (start + end) / 2;
+      ctx.save();
+      ctx.translate(Math.cos(mid) * 8 * pulse, Math.sin(mid) * 8 * pulse);
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.arc(0, 0, radius, start, end);
+      ctx.closePath();
+      ctx.save();
+      ctx.clip();
+      stamp();
+      ctx.restore();
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = bitmap.outline;
+      ctx.stroke();
+      ctx.restore();
+
+      // The hub sits on top of everything at full strength.
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(0, 0, HUB_RADIUS, 0, 2 * Math.PI);
+      ctx.clip();
+      stamp();
+      ctx.restore();
+    }
 
     if (!canvasShownRef.current) {
       requestAnimationFrame(() => requestAnimationFrame(() => {
@@ -274,11 +934,13 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
         }
       }));
     }
-  }, [slices, radius, angle, wrapRightAlignedText]);
+  }, [wheelSlices, radius, arcs, paintWheel]);
 
   // Draw during layout changes to avoid visual lag when controls (like size) update rapidly.
   useLayoutEffect(() => {
     try {
+      // A theme switch changes the colors the bitmap was painted with.
+      wheelBitmapRef.current = null;
       // Draw synchronously so the canvas matches the latest `radius` before paint.
       draw(rotationRef.current);
     } catch (e) {
@@ -294,7 +956,10 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
     const obs = new MutationObserver((mutations) => {
       for (const m of mutations) {
         if (m.type === "attributes" && m.attributeName === "class") {
-          requestAnimationFrame(() => requestAnimationFrame(() => draw(rotationRef.current)));
+          requestAnimationFrame(() => requestAnimationFrame(() => {
+            wheelBitmapRef.current = null;
+            draw(rotationRef.current);
+          }));
           break;
         }
       }
@@ -321,132 +986,145 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
     masterGainRef.current = master;
   }, [muted, volume]);
 
-  function playTick(): void {
+  // An uploaded sound replaces the pack's; until it has decoded, the pack's sound plays instead.
+  function playSound(kind: SoundKind): void {
     const ctx = audioRef.current;
     const master = masterGainRef.current;
     if (!ctx || !master) return;
-    const now = ctx.currentTime;
-
-    const osc = ctx.createOscillator();
-    osc.type = 'triangle';
-    osc.frequency.setValueAtTime(900, now);
-    osc.frequency.exponentialRampToValueAtTime(640, now + 0.09);
-
-    const bodyFilter = ctx.createBiquadFilter();
-    bodyFilter.type = 'bandpass';
-    bodyFilter.frequency.value = 800;
-    bodyFilter.Q.value = 0.9;
-
-    const bodyGain = ctx.createGain();
-    bodyGain.gain.setValueAtTime(0.0001, now);
-    bodyGain.gain.exponentialRampToValueAtTime(0.9, now + 0.005);
-    bodyGain.gain.exponentialRampToValueAtTime(0.001, now + 0.12);
-
-    osc.connect(bodyFilter);
-    bodyFilter.connect(bodyGain);
-    bodyGain.connect(master);
-
-    const noiseDur = 0.045;
-    const noiseBuf = ctx.createBuffer(1, Math.floor(ctx.sampleRate * noiseDur), ctx.sampleRate);
-    const bufData = noiseBuf.getChannelData(0);
-    for (let i = 0; i < bufData.length; i++) {
-      bufData[i] = (Math.random() * 2 - 1) * Math.exp(-5 * (i / bufData.length));
-    }
-    const noiseSrc = ctx.createBufferSource();
-    noiseSrc.buffer = noiseBuf;
+    const custom = customSounds[kind];
+    const buffer = custom ? customBuffer(ctx, custom) : null;
+    if (buffer) playBuffer(ctx, master, buffer, kind === "tick" ? MAX_TICK_SECS : undefined);
+    else SOUND_PACKS[soundPack][kind](ctx, master);
+  }
 
-    const noiseFilter = ctx.createBiquadFilter();
-    noiseFilter.type = 'highpass';
-    noiseFilter.frequency.value = 1200;
+  function playTick(): void {
+    playSound("tick");
+  }
 
-    const noiseGain = ctx.createGain();
-    noiseGain.gain.setValueAtTime(0.0001, now);
-    noiseGain.gain.linearRampToValueAtTime(0.6, now + 0.002);
-    noiseGain.gain.exponentialRampToValueAtTime(0.0001, now + noiseDur);
+  function playWin(): void {
+    playSound("win");
+  }
 
-    noiseSrc.connect(noiseFilter);
-    noiseFilter.connect(noiseGain);
-    noiseGain.connect(master);
+  function previewSound(kind: SoundKind) {
+    ensureAudio().then(() => playSound(kind)).catch(e => console.error("Error previewing sound:", e));
+  }
 
-    osc.start(now);
-    noiseSrc.start(now);
-    osc.stop(now + 0.13);
-    noiseSrc.stop(now + noiseDur);
+  function setCustomSound(kind: SoundKind, src: string | null) {
+    // Free the old upload unless the other sound uses the same file.
+    const old = customSounds[kind];
+    if (old && old !== src && old !== customSounds[kind === "tick" ? "win" : "tick"]) forgetBuffer(old);
+    setCustomSounds(prev => {
+      const next = { ...prev };
+      if (src) next[kind] = src;
+      else delete next[kind];
+      return next;
+    });
+    // Start decoding now so the first spin already uses it.
+    if (src && audioRef.current) customBuffer(audioRef.current, src);
+  }
 
-    const cleanupMs = Math.ceil((0.15 + 0.05) * 1000);
-    setTimeout(() => {
-      try {
-        osc.disconnect();
-        bodyFilter.disconnect();
-        bodyGain.disconnect();
-        noiseSrc.disconnect();
-        noiseFilter.disconnect();
-        noiseGain.disconnect();
-      } catch (e) {
-        console.error("Error cleaning up audio nodes:", e);
+  // Redraws from the celebration loop must use the latest slices, e.g. after removal mode took the winner off.
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
+
+  function celebrate(slice: Slice) {
+    skipCelebration();
+    const reduced = prefersReducedMotion();
+    const party: Celebration = { slice, start: performance.now(), reduced, particles: reduced ? [] : makeConfetti() };
+    celebrationRef.current = party;
+    setCelebrating(true);
+
+    // Without motion the winner is just highlighted for a moment.
+    if (reduced) {
+      drawRef.current(rotationRef.current);
+      const timer = setTimeout(skipCelebration, CELEBRATION_MS);
+      cancelCelebrationRef.current = () => clearTimeout(timer);
+      return;
+    }
+
+    const layer = confettiRef.current;
+    if (layer) sizeConfettiLayer(layer, radius * 2 + 20);
+    let frameId = 0;
+    const frame = () => {
+      const elapsed = performance.now() - party.start;
+      if (elapsed >= CELEBRATION_MS) {
+        skipCelebration();
+        return;
       }
-    }, cleanupMs);
+      drawRef.current(rotationRef.current);
+      if (layer) drawConfetti(layer, party.particles, slice.color, elapsed);
+      frameId = requestAnimationFrame(frame);
+    };
+    frameId = requestAnimationFrame(frame);
+    cancelCelebrationRef.current = () => cancelAnimationFrame(frameId);
   }
 
-  function playWin(): void {
-    const ctx = audioRef.current;
-    const master = masterGainRef.current;
-    if (!ctx || !master) return;
-    const now = ctx.currentTime;
-    const freqs = [880, 1244, 1661];
-    const dur = 0.125;
-    for (let i = 0; i < freqs.length; i++) {
-      const start = now + i * dur;
-      const osc = ctx.createOscillator();
-      const g = ctx.createGain();
-      osc.type = 'triangle';
-      osc.frequency.value = freqs[i];
-      g.gain.setValueAtTime(0, start);
-      g.gain.linearRampToValueAtTime(1, start + 0.01);
-      g.gain.exponentialRampToValueAtTime(0.001, start + dur - 0.02);
-      osc.connect(g);
-      g.connect(master);
-      osc.start(start);
-      osc.stop(start + dur);
-    }
+  function skipCelebration() {
+    cancelCelebrationRef.current?.();
+    cancelCelebrationRef.current = null;
+    if (!celebrationRef.current) return;
+    celebrationRef.current = null;
+    if (confettiRef.current) clearConfetti(confettiRef.current);
+    drawRef.current(rotationRef.current);
+    setCelebrating(false);
   }
 
-  function spin() {
-    if (isSpinning || slices.length === 0) return;
+  function notePassing(slice: Slice | undefined, force = false) {
+    if (!slice) return;
+    const now = performance.now();
+    if (!force && now - passingAtRef.current < PASSING_ANNOUNCE_MS) return;
+    passingAtRef.current = now;
+    setPassing(slice);
+  }
+
+  // Animates one spin onto a random eligible spot and reports the slice it stopped on. A flick passes its
+  // release velocity (rad/s), which sets the direction and how long the wheel coasts; see lib/flick.
+  function runSpin(onLanded: (landed: Slice, durationMs: number) => void, flickVelocity?: number) {
+    skipCelebration();
     setIsSpinning(true);
     setWinner(null);
 
-    const turns = 4 + Math.floor(Math.random() * 3);
-    const targetRotation = rotationRef.current + turns * 2 * Math.PI + Math.random() * 2 * Math.PI;
-
+    // Choose where to land first, then work out the rotation that brings that spot under the pointer.
+    const TAU = 2 * Math.PI;
+    const landing = pickLandingAngle(arcs, eligible);
+    const restAngle = (((-Math.PI / 2 - landing) % TAU) + TAU) % TAU;
+    const current = ((rotationRef.current % TAU) + TAU) % TAU;
+    const forward = (restAngle - current + TAU) % TAU;
+
+    let travel: number;
+    let duration: number;
+    let ease: (t: number) => number;
+    if (prefersReducedMotion()) {
+      travel = forward;
+      duration = REDUCED_REVEAL_MS;
+      ease = t => (t < 1 ? 0 : 1);
+    } else if (flickVelocity === undefined) {
+      const arc = arcs.find(a => landing >= a.start && landing < a.end);
+      const room = arc ? landing - arc.start : 0;
+      ({ travel, curve: ease } = planSpin(spinProfile, forward, TAU / Math.max(1, wheelSlices.length), room));
+      duration = Math.max(2, Math.min(12, spinSecs)) * 1000;
+    } else {
+      ({ travel, durationMs: duration } = flickMotion(flickVelocity, forward));
+      ease = easeOutQuad;
+    }
+    const targetRotation = rotationRef.current + travel;
     const start = performance.now();
-    const duration = Math.max(2, Math.min(12, spinSecs)) * 1000;
 
     ensureAudio().then(() => {
       try {
-        const TAU = 2 * Math.PI;
-        const rotNorm = ((rotationRef.current % TAU) + TAU) % TAU;
-        const pointer = -Math.PI / 2;
-        const relative = ((pointer - rotNorm) + TAU) % TAU;
-        const eps = 1e-6;
-        const idx = Math.floor(((relative - eps + TAU) % TAU) / angle) % slices.length;
-        lastIndexRef.current = idx;
+        lastIndexRef.current = indexAtPointer(rotationRef.current, arcs);
       } catch (e) { lastIndexRef.current = null; console.error("Error playing win sound:", e); }
     }).catch(() => { });
 
     const step = (now: number) => {
       const t = Math.min(1, (now - start) / duration);
-      const eased = easeOutCubic(t);
+      const eased = ease(t);
       const value = rotationRef.current + (targetRotation - rotationRef.current) * eased;
       try {
-        const TAU = 2 * Math.PI;
-        const rotNorm = ((value % TAU) + TAU) % TAU;
-        const pointer = -Math.PI / 2; // 12 o'clock
-        const relative = ((pointer - rotNorm) + TAU) % TAU;
-        const eps = 1e-6;
-        const idx = Math.floor(((relative - eps + TAU) % TAU) / angle) % slices.length;
+        const idx = indexAtPointer(value, arcs);
         if (idx !== lastIndexRef.current) {
           lastIndexRef.current = idx;
+          notePassing(wheelSlices[idx]);
           try { playTick(); } catch (e) { console.error("Error playing win sound:", e); }
         }
       } catch (e) { console.error("Error playing win sound:", e); }
@@ -456,19 +1134,10 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
         requestAnimationFrame(step);
       } else {
         rotationRef.current = targetRotation;
-        const TAU = 2 * Math.PI;
-        const finalAngle = ((rotationRef.current % TAU) + TAU) % TAU;
-        const pointer = -Math.PI / 2; // 12 o'clock
-        const relative = ((pointer - finalAngle) + TAU) % TAU;
-        const eps = 1e-6;
-        const landedIdx = Math.floor(((relative - eps + TAU) % TAU) / angle) % slices.length;
-        const landed = slices[landedIdx];
-        setWinner(landed.label);
-        if (removalMode) {
-          setSlices(prev => prev.filter((_, i) => i !== landedIdx));
-        }
-        try { playWin(); } catch (e) { console.error("Error playing win sound:", e); }
+        const landed = wheelSlices[indexAtPointer(rotationRef.current, arcs)];
         lastIndexRef.current = null;
+        notePassing(landed, true);
+        onLanded(landed, duration);
         setIsSpinning(false);
       }
     };
@@ -476,12 +1145,211 @@ export function WheelProvider({ children }: { children: React.ReactNode; }) {
     requestAnimationFrame(step);
   }
 
+  function recordSpin(landed: Slice, durationMs: number, sliceCount: number, removed: boolean, tally?: SpinRecord["tally"]) {
+    const record: SpinRecord = {
+      id: uid(),
+      at: Date.now(),
+      wheelName: wheels.find(w => w.id === activeWheelId)?.name ?? "",
+      label: landed.label,
+      color: landed.color,
+      sliceCount,
+      durationMs,
+      removed,
+      slice: landed,
+      ...(tally ? { tally } : {}),
+    };
+    setHistory(prev => [record, ...prev].slice(0, HISTORY_LIMIT));
+    return record.id;
+  }
+
+  function spin() {
+    spinWith();
+  }
+
+  function flick(velocity: number) {
+    spinWith(velocity);
+  }
+
+  // Turns the wheel by hand while it is being dragged, ticking as slices pass the pointer.
+  function rotateBy(delta: number) {
+    if (isSpinning) return;
+    if (!audioRef.current) ensureAudio().catch(() => { });
+    rotationRef.current += delta;
+    draw(rotationRef.current);
+    const idx = indexAtPointer(rotationRef.current, arcs);
+    if (idx !== lastIndexRef.current) {
+      notePassing(wheelSlices[idx]);
+      if (lastIndexRef.current !== null) {
+        try { playTick(); } catch (e) { console.error("Error playing tick sound:", e); }
+      }
+      lastIndexRef.current = idx;
+    }
+  }
+
+  function spinWith(flickVelocity?: number) {
+    if (isSpinning || tournament || bestOf || vetoWindow || eligibleCount === 0) return;
+    runSpin((landed, durationMs) => {
+      setWinner(landed);
+      celebrate(landed);
+      const recordId = recordSpin(landed, durationMs, slices.length, removalMode);
+      if (canAnyoneVeto(veto, vetoesUsed)) {
+        setVetoWindow({ slice: landed, recordId, endsAt: Date.now() + veto.windowSecs * 1000 });
+      } else if (removalMode) {
+        removeSlice(landed.id);
+      }
+      try { playWin(); } catch (e) { console.error("Error playing win sound:", e); }
+    }, flickVelocity);
+  }
+
+  // Closes the veto window and lets the pick stand.
+  function acceptWinner() {
+    if (!vetoWindow) return;
+    if (removalMode) removeSlice(vetoWindow.slice.id);
+    setVetoWindow(null);
+  }
+
+  function vetoWinner(participant: string) {
+    if (!vetoWindow || vetoesLeft(veto, vetoesUsed, participant) === 0) return;
+    const { slice, recordId } = vetoWindow;
+    setVetoesUsed(prev => ({ ...prev, [participant]: (prev[participant] ?? 0) + 1 }));
+    setHistory(prev => prev.map(r => (r.id === recordId ? { ...r, vetoedBy: participant, removed: veto.removeVetoed } : r)));
+    if (veto.removeVetoed) removeSlice(slice.id);
+    else setVetoedIds(prev => [...prev, slice.id]);
+    setVetoWindow(null);
+    setWinner(null);
+    setRespinQueued(true);
+  }
+
+  function resetVetoes() {
+    setVetoesUsed({});
+    setVetoedIds([]);
+  }
+
+  // Tournament rounds take the landed slice off the wheel for the rest of the run; the saved wheel is
+  // left alone, so ending the tournament brings everyone back.
+  function startTournament() {
+    if (isSpinning || tournament || bestOf || vetoWindow || eligibleCount < 2) return;
+    setWinner(null);
+    setTournament({ status: "running", eliminated: [], survivor: null, startedAt: Date.now() });
+  }
+
+  function nextTournamentRound() {
+    if (!tournament) return;
+    if (eligibleCount > 1) {
+      runSpin(landed => {
+        setTournament(t => t && { ...t, eliminated: [...t.eliminated, landed] });
+      });
+      return;
+    }
+    const survivor = wheelSlices.find((_, i) => eligible[i]) ?? null;
+    setTournament({ ...tournament, status: "done", survivor });
+    if (!survivor) return;
+    setWinner(survivor);
+    celebrate(survivor);
+    recordSpin(survivor, Date.now() - tournament.startedAt, tournament.eliminated.length + 1, false);
+    try { playWin(); } catch (e) { console.error("Error playing win sound:", e); }
+  }
+
+  function startBestOf() {
+    if (isSpinning || tournament || bestOf || vetoWindow || eligibleCount === 0) return;
+    setWinner(null);
+    setBestOf({ status: "running", total: bestOfSpins, spins: [], tied: null, winner: null, startedAt: Date.now() });
+  }
+
+  function finishBestOf(run: BestOf, winner: Slice) {
+    setBestOf({ ...run, status: "done", tied: null, winner });
+    setWinner(winner);
+    celebrate(winner);
+    const tally = tallySpins(run.spins).map(e => ({ label: e.slice.label, color: e.slice.color, count: e.count }));
+    recordSpin(winner, Date.now() - run.startedAt, slices.length, false, tally);
+    try { playWin(); } catch (e) { console.error("Error playing win sound:", e); }
+  }
+
+  function nextBestOfSpin() {
+    if (!bestOf || eligibleCount === 0) return;
+    const run = bestOf;
+    if (run.tied) {
+      runSpin(landed => finishBestOf(run, landed));
+      return;
+    }
+    runSpin(landed => {
+      const spins = [...run.spins, landed];
+      if (spins.length < run.total) {
+        setBestOf({ ...run, spins });
+        return;
+      }
+      const leaders = tallyLeaders(tallySpins(spins));
+      if (leaders.length === 1) finishBestOf({ ...run, spins }, leaders[0]);
+      else setBestOf({ ...run, spins, tied: leaders });
+    });
+  }
+
+  function endBestOf() {
+    if (isSpinning) return;
+    setBestOf(null);
+  }
+
+  // Rounds finished so far in whichever multi-spin mode is running, or null when none is.
+  const roundsDone = tournament?.status === "running" ? tournament.eliminated.length
+    : bestOf?.status === "running" ? bestOf.spins.length + (bestOf.tied ? 1 : 0)
+      : null;
+
+  // Timers outlive the render that set them, so they call through refs to see current slices.
+  const acceptWinnerRef = useRef(acceptWinner);
+  acceptWinnerRef.current = acceptWinner;
+  const spinRef = useRef(spin);
+  spinRef.current = spin;
+  const nextRoundRef = useRef(() => { });
+  nextRoundRef.current = () => {
+    if (isSpinning) return;
+    if (tournament?.status === "running") nextTournamentRound();
+    else if (bestOf?.status === "running") nextBestOfSpin();
+  };
+
+  useEffect(() => {
+    if (roundsDone === null || isSpinning) return;
+    const timer = setTimeout(() => nextRoundRef.current(), roundsDone === 0 ? 0 : roundPauseSecs * 1000);
+    return () => clearTimeout(timer);
+  }, [roundsDone, isSpinning, roundPauseSecs]);
+
+  // A veto re-spins on the next render, once the vetoed slice is off the wheel.
+  useEffect(() => {
+    if (!respinQueued || isSpinning) return;
+    setRespinQueued(false);
+    spinRef.current();
+  }, [respinQueued, isSpinning]);
+
+  // The veto window closes by itself once its time is up.
+  useEffect(() => {
+    if (!vetoWindow) return;
+    const timer = setTimeout(() => acceptWinnerRef.current(), Math.max(0, vetoWindow.endsAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [vetoWindow]);
+
+  function pauseTournament() {
+    setTournament(t => (t?.status === "running" ? { ...t, status: "paused" } : t));
+  }
+
+  function resumeTournament() {
+    setTournament(t => (t?.status === "paused" ? { ...t, status: "running" } : t));
+  }
+
+  function endTournament() {
+    if (isSpinning) return;
+    setTournament(null);
+  }
+
   return (
     <WheelContext.Provider value={{
-      slices, addSlice, removeSlice, clearAll, shuffleColors, exportJSON, importJSON,
-      radius, setRadius, spinSecs, setSpinSecs, removalMode, setRemovalMode, isSpinning, winner,
-      spin, newLabel, setNewLabel, newColor, setNewColor, muted, setMuted, volume, setVolume,
-      canvasRef, canvasShown
+      slices, wheelSlices, eligible, passing, addSlice, newLabelMatch, mergeNewLabel, removeSlice, updateSlice, setPoster, moveSlice, clearAll, shuffleColors, palettes: [...BUILT_IN_PALETTES, ...customPalettes], paletteId: palette.id, setPaletteId: selectPalette, applyPalette, savePalette, deletePalette, exportJSON, importJSON, importStatus, dismissImportStatus: () => setImportStatus(null), exportCSV, applyImport,
+      radius, setRadius, spinSecs, setSpinSecs, removalMode, setRemovalMode, filter, setFilter, eligibleCount, roundPauseSecs, setRoundPauseSecs, bestOfSpins, setBestOfSpins, spinProfile, setSpinProfile, labelStyle, setLabelStyle, isSpinning, winner,
+      spin, flick, rotateBy, tournament, startTournament, pauseTournament, resumeTournament, endTournament, bestOf, startBestOf, endBestOf,
+      veto, setVeto, vetoesUsed, vetoWindow, vetoWinner, acceptWinner, resetVetoes, newLabel, setNewLabel, newColor, setNewColor, muted, setMuted, volume, setVolume, soundPack, setSoundPack, customSounds, setCustomSound, previewSound,
+      canvasRef, confettiRef, celebrating, skipCelebration, canvasShown, hydrated, saveFailed, newerSave,
+      wheels, activeWheelId, createWheel: createNamedWheel, renameWheel, duplicateWheel, deleteWheel, switchWheel,
+      sharedWheel, acceptSharedWheel, dismissSharedWheel, copyShareLink,
+      history, clearHistory, exportHistory, restoreFromHistory,
+      undo, redo, canUndo: undoStack.length > 0, canRedo: redoStack.length > 0
     }}>
       {children}
     </WheelContext.Provider>
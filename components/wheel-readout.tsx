@@ -0,0 +1,38 @@
+import React from 'react';
+import type { Slice } from '@/lib/slices';
+
+// The wheel as text: every slice with its share, plus a live "Now passing" for screen readers while it spins.
+export default function WheelReadout({ slices, eligible, passing, isSpinning }: {
+  slices: Slice[];
+  eligible: boolean[];
+  passing: Slice | null;
+  isSpinning: boolean;
+}) {
+  const total = slices.reduce((sum, s, i) => sum + (eligible[i] ? s.weight : 0), 0);
+
+  return (
+    <div className="w-full max-w-xl text-sm">
+      <p className="sr-only" role="status" aria-live="polite">
+        {isSpinning && passing ? `Now passing: ${passing.label}` : ''}
+      </p>
+      <details className="rounded-xl border bg-card px-4 py-2">
+        <summary className="cursor-pointer select-none text-muted-foreground">Wheel as a list</summary>
+        {slices.length === 0 ? (
+          <p className="py-2 text-muted-foreground">No movies on the wheel.</p>
+        ) : (
+          <ol className="list-decimal space-y-0.5 py-2 pl-6">
+            {slices.map((s, i) => (
+              <li key={s.id} aria-current={passing?.id === s.id ? 'true' : undefined} className={passing?.id === s.id ? 'font-semibold' : ''}>
+                <span className="inline-block h-3 w-3 mr-2 align-middle rounded-sm border" style={{ background: s.color }} aria-hidden />
+                {s.label}
+                <span className="text-muted-foreground">
+                  {eligible[i] ? ` · ${total > 0 ? Math.round((s.weight / total) * 100) : 0}%` : ' (filtered out)'}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </details>
+    </div>
+  );
+}
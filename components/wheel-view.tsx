@@ -1,37 +1,162 @@
 "use client";
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+import BestOfPanel from './best-of-panel';
 import Pointer from './pointer';
+import TournamentPanel from './tournament-panel';
+import VetoPanel from './veto-panel';
+import WheelReadout from './wheel-readout';
+import WinnerCard from './winner-card';
 import { Button } from './ui/button';
 import { useWheel } from './wheel-context';
+import { CONFETTI_BLEED } from '@/lib/celebration';
+import { angleDelta, releaseVelocity, type DragSample } from '@/lib/flick';
+
+// Drags shorter than this (in radians) count as a click, not a flick.
+const MIN_DRAG_ANGLE = 0.05;
 
 export default function WheelView() {
-  const { canvasRef, canvasShown, radius, spin, isSpinning, slices, shuffleColors, clearAll, winner } = useWheel();
+  const { canvasRef, confettiRef, celebrating, skipCelebration, canvasShown, hydrated, radius, spin, flick, rotateBy, isSpinning, eligibleCount, shuffleColors, clearAll, winner,
+    sharedWheel, acceptSharedWheel, dismissSharedWheel, undo, redo, canUndo, canRedo,
+    tournament, startTournament, pauseTournament, resumeTournament, endTournament, bestOf, bestOfSpins, startBestOf, endBestOf,
+    veto, vetoesUsed, vetoWindow, vetoWinner, acceptWinner, wheelSlices, eligible, passing } = useWheel();
+  const busy = isSpinning || Boolean(tournament) || Boolean(bestOf) || Boolean(vetoWindow);
+  const dragRef = useRef<{ pointerId: number; last: number; moved: number; samples: DragSample[]; } | null>(null);
+  // These change on every render; the shortcut listener reads them here instead of re-subscribing.
+  const keysRef = useRef({ undo, redo, skipCelebration });
+  keysRef.current = { undo, redo, skipCelebration };
+
+  // Angle of the pointer around the wheel's center.
+  function pointerAngle(e: React.PointerEvent<HTMLCanvasElement>) {
+    const r = e.currentTarget.getBoundingClientRect();
+    return Math.atan2(e.clientY - (r.top + r.height / 2), e.clientX - (r.left + r.width / 2));
+  }
+
+  function onPointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    skipCelebration();
+    if (busy || eligibleCount === 0 || dragRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const angle = pointerAngle(e);
+    dragRef.current = { pointerId: e.pointerId, last: angle, moved: 0, samples: [{ t: e.timeStamp, angle: 0 }] };
+  }
+
+  function onPointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    const angle = pointerAngle(e);
+    const delta = angleDelta(drag.last, angle);
+    drag.last = angle;
+    drag.moved += delta;
+    drag.samples.push({ t: e.timeStamp, angle: drag.moved });
+    if (drag.samples.length > 32) drag.samples.shift();
+    rotateBy(delta);
+  }
+
+  function onPointerUp(e: React.PointerEvent<HTMLCanvasElement>) {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) return;
+    dragRef.current = null;
+    if (Math.abs(drag.moved) < MIN_DRAG_ANGLE) return;
+    flick(releaseVelocity(drag.samples, e.timeStamp));
+  }
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes. Text fields keep their native undo.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && celebrating) {
+        keysRef.current.skipCelebration();
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        keysRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        keysRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [celebrating]);
 
   return (
-    <div className="flex flex-col items-center gap-8">
-      <div className="relative" style={{
-        height: `${radius * 2 + 20}px`,
-      }}>
-        <Pointer className="absolute left-1/2 -translate-x-1/2 -top-3 z-10 scale-200" />
-        <canvas
-          ref={canvasRef}
-          className="rounded-full shadow-sm border bg-card"
-          style={{ visibility: canvasShown ? 'visible' : 'hidden' }}
-        />
+    <div className="flex flex-col items-center gap-8 overflow-x-clip">
+      {sharedWheel && (
+        <div className="w-full max-w-xl rounded-xl border bg-card p-4 shadow-sm flex flex-wrap items-center gap-3" role="alert">
+          <p className="flex-1 text-sm">
+            Someone shared <span className="font-semibold">{sharedWheel.name}</span> with {sharedWheel.slices.length} movies.
+            Loading it adds a new wheel and keeps yours.
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={acceptSharedWheel} disabled={isSpinning}>Load</Button>
+            <Button variant="ghost" onClick={dismissSharedWheel}>Dismiss</Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-start justify-center gap-6">
+        <div className="relative" style={{
+          height: `${radius * 2 + 20}px`,
+        }}>
+          <Pointer className="absolute left-1/2 -translate-x-1/2 -top-3 z-10 scale-200" />
+          <canvas
+            ref={canvasRef}
+            className={`rounded-full shadow-sm border bg-card touch-none ${busy ? '' : 'cursor-grab active:cursor-grabbing'}`}
+            style={{ visibility: canvasShown && hydrated ? 'visible' : 'hidden' }}
+            role="img"
+            aria-label="Wheel. Drag and release to flick it. The slices are listed below the buttons."
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerCancel={() => { dragRef.current = null; }}
+          />
+          <canvas
+            ref={confettiRef}
+            className="pointer-events-none absolute z-20"
+            style={{ left: -CONFETTI_BLEED, top: -CONFETTI_BLEED, visibility: celebrating ? 'visible' : 'hidden' }}
+            aria-hidden
+          />
+          {celebrating && (
+            <Button variant="secondary" size="sm" className="absolute bottom-0 right-0 z-30" onClick={skipCelebration} title="Skip (Esc)">
+              Skip
+            </Button>
+          )}
+        </div>
+
+        {bestOf && <BestOfPanel bestOf={bestOf} isSpinning={isSpinning} onEnd={endBestOf} />}
       </div>
 
-      <div className="flex items-center gap-3">
-        <Button onClick={spin} disabled={isSpinning || slices.length === 0} aria-live="polite">{isSpinning ? 'Spinning' : 'Spin'}</Button>
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <Button onClick={spin} disabled={busy || eligibleCount === 0} aria-live="polite">{isSpinning ? 'Spinning' : 'Spin'}</Button>
+        <Button variant="outline" onClick={startBestOf} disabled={busy || eligibleCount === 0} title={`Spin ${bestOfSpins} times, most picks wins`}>Best of {bestOfSpins}</Button>
+        <Button variant="outline" onClick={startTournament} disabled={busy || eligibleCount < 2} title="Spin until one movie is left">Tournament</Button>
         <Button variant="outline" onClick={shuffleColors} disabled={isSpinning}>Shuffle colors</Button>
-        <Button variant="destructive" onClick={clearAll} disabled={isSpinning}>Clear</Button>
+        <Button variant="destructive" onClick={clearAll} disabled={busy}>Clear</Button>
+        <Button variant="outline" size="icon" onClick={undo} disabled={isSpinning || !canUndo} aria-label="Undo" title="Undo (Ctrl+Z)"><Undo2 /></Button>
+        <Button variant="outline" size="icon" onClick={redo} disabled={isSpinning || !canRedo} aria-label="Redo" title="Redo (Ctrl+Shift+Z)"><Redo2 /></Button>
       </div>
 
-      {winner && (
-        <div className="text-center text-base mt-1 text-muted-foreground" role="status" aria-live="polite">
-          Winner: <span className="font-semibold text-primary">{winner}</span>
-        </div>
+      <WheelReadout slices={wheelSlices} eligible={eligible} passing={passing} isSpinning={isSpinning} />
+
+      {tournament && (
+        <TournamentPanel
+          tournament={tournament}
+          remaining={eligibleCount}
+          isSpinning={isSpinning}
+          onPause={pauseTournament}
+          onResume={resumeTournament}
+          onEnd={endTournament}
+        />
       )}
+
+      {vetoWindow && <VetoPanel vetoWindow={vetoWindow} veto={veto} vetoesUsed={vetoesUsed} onVeto={vetoWinner} onAccept={acceptWinner} />}
+
+      {winner && <WinnerCard slice={winner} />}
     </div>
   );
 }
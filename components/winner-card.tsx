@@ -0,0 +1,32 @@
+import React from 'react';
+import Image from 'next/image';
+import { formatRuntime, type Slice } from '@/lib/slices';
+
+export default function WinnerCard({ slice }: { slice: Slice; }) {
+  const meta = slice.meta ?? {};
+  const facts = [meta.year, meta.runtime ? formatRuntime(meta.runtime) : undefined].filter(Boolean).join(' · ');
+
+  return (
+    <div className="w-full max-w-md rounded-xl border bg-card text-card-foreground shadow-sm overflow-hidden" role="status" aria-live="polite">
+      <div className="h-1.5" style={{ background: slice.color }} aria-hidden />
+      <div className="flex gap-4 p-4">
+        {meta.poster && (
+          <Image src={meta.poster} alt={`Poster for ${slice.label}`} width={213} height={320} unoptimized className="h-32 w-auto rounded-md border object-cover" />
+        )}
+        <div className="flex min-w-0 flex-1 flex-col gap-1">
+          <span className="text-xs uppercase tracking-wide text-muted-foreground">Winner</span>
+          <span className="text-xl font-semibold text-primary break-words">{slice.label}</span>
+          {facts && <span className="text-sm text-muted-foreground">{facts}</span>}
+          {meta.genres && (
+            <ul className="mt-1 flex flex-wrap gap-1">
+              {meta.genres.map(g => <li key={g} className="rounded-full border px-2 py-0.5 text-xs">{g}</li>)}
+            </ul>
+          )}
+          {meta.suggestedBy && <span className="mt-1 text-sm">Suggested by <span className="font-medium">{meta.suggestedBy}</span></span>}
+          {meta.streaming && <span className="text-sm text-muted-foreground">Watch on {meta.streaming}</span>}
+          {slice.notes && <p className="mt-1 text-sm text-muted-foreground">{slice.notes}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * The winner celebration: the winning wedge pulls out, the wheel briefly
+ * zooms and confetti in the winner's color bursts from the pointer. The
+ * confetti is drawn on its own canvas laid over the wheel with room to spare
+ * on every side, so it can fly past the wheel's edge. Positions are worked
+ * out from elapsed time, so any redraw lands on the right frame.
+ */
+
+export const CELEBRATION_MS = 2200;
+// How far the confetti layer reaches past the wheel canvas on each side.
+export const CONFETTI_BLEED = 160;
+const GRAVITY = 900; // px/s²
+
+export type Particle = {
+  vx: number;
+  vy: number;
+  size: number;
+  spin: number;
+  tint: number;
+  delay: number;
+};
+
+export function makeConfetti(count = 90): Particle[] {
+  return Array.from({ length: count }, () => {
+    // Mostly upwards and outwards from the pointer, fanned ±70° around straight up.
+    const angle = -Math.PI / 2 + (Math.random() - 0.5) * (Math.PI * 0.78);
+    const speed = 220 + Math.random() * 260;
+    return {
+      vx: Math.cos(angle) * speed,
+      vy: Math.sin(angle) * speed,
+      size: 4 + Math.random() * 5,
+      spin: (Math.random() - 0.5) * 14,
+      // 0 draws the slice color as is, up to 1 mixes in white for highlights.
+      tint: Math.random() < 0.3 ? Math.random() * 0.6 : 0,
+      delay: Math.random() * 0.15,
+    };
+  });
+}
+
+// Where a particle is `secs` after the burst, relative to where it started, and how visible it still is.
+export function particleAt(p: Particle, secs: number) {
+  const t = Math.max(0, secs - p.delay);
+  const life = CELEBRATION_MS / 1000 - p.delay;
+  return {
+    x: p.vx * t * 0.6,
+    y: p.vy * t + 0.5 * GRAVITY * t * t,
+    angle: p.spin * t,
+    alpha: t === 0 ? 0 : Math.max(0, 1 - Math.pow(t / life, 2)),
+  };
+}
+
+// Rises quickly, then eases back to rest by the end of the celebration.
+export function celebrationPulse(progress: number) {
+  if (progress < 0.15) return progress / 0.15;
+  const p = (progress - 0.15) / 0.85;
+  return 1 - p * p;
+}
+
+// `wheelSize` is the wheel canvas size in CSS pixels; the layer is that plus the bleed on each side.
+export function sizeConfettiLayer(canvas: HTMLCanvasElement, wheelSize: number) {
+  const dpr = window.devicePixelRatio || 1;
+  const size = wheelSize + CONFETTI_BLEED * 2;
+  canvas.width = size * dpr;
+  canvas.height = size * dpr;
+  canvas.style.width = `${size}px`;
+  canvas.style.height = `${size}px`;
+}
+
+export function drawConfetti(canvas: HTMLCanvasElement, particles: Particle[], color: string, elapsedMs: number) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  const dpr = window.devicePixelRatio || 1;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  // The pointer sits at the top of the wheel, 10px inside the wheel canvas.
+  ctx.translate(canvas.width / dpr / 2, CONFETTI_BLEED + 10);
+  const secs = elapsedMs / 1000;
+  for (const p of particles) {
+    const { x, y, angle, alpha } = particleAt(p, secs);
+    if (alpha <= 0) continue;
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(angle);
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = color;
+    ctx.fillRect(-p.size / 2, -p.size / 4, p.size, p.size / 2);
+    if (p.tint) {
+      ctx.globalAlpha = alpha * p.tint;
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(-p.size / 2, -p.size / 4, p.size, p.size / 2);
+    }
+    ctx.restore();
+  }
+}
+
+// drawConfetti leaves its scale and offset on the context; clear in raw pixels.
+export function clearConfetti(canvas: HTMLCanvasElement) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+}
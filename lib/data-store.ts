@@ -0,0 +1,121 @@
+/**
+ * IndexedDB storage for large data URLs (posters, uploaded sounds) that would
+ * quickly fill localStorage's few megabytes. Saved state refers to each one by
+ * `dataKey`, a hash of its content, so every distinct file is stored once.
+ */
+
+export type DataPool = Record<string, string>;
+
+const DB_NAME = "movieWheel";
+const STORE = "data";
+
+let db: Promise<IDBDatabase> | null = null;
+// Keys known to be in the store, for saves that can't wait on IndexedDB.
+const storedKeys = new Set<string>();
+// Set once the stored data has been read, so a failed read never lets a save delete it.
+let loaded = false;
+
+function openDB() {
+  db ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  db.catch(() => { db = null; });
+  return db;
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+const keys = new Map<string, string>();
+
+// cyrb53: a 53-bit string hash, plenty to tell a few hundred files apart.
+function hash(text: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// A short stable key for a data URL. Keys are cached, as the same URLs are pooled on every save.
+export function dataKey(src: string) {
+  let key = keys.get(src);
+  if (!key) {
+    key = `data-${hash(src).toString(36)}-${src.length.toString(36)}`;
+    keys.set(src, key);
+  }
+  return key;
+}
+
+/**
+ * Adds `src` to `pool` and returns its key, or null in the unlikely case that
+ * a different file already holds the key; the caller then keeps it inline.
+ */
+export function poolData(src: string, pool: DataPool) {
+  const key = dataKey(src);
+  if (pool[key] !== undefined && pool[key] !== src) return null;
+  pool[key] = src;
+  return key;
+}
+
+export async function readStoredData(): Promise<DataPool> {
+  const tx = (await openDB()).transaction(STORE, "readonly");
+  const store = tx.objectStore(STORE);
+  const [ids, values] = await Promise.all([request(store.getAllKeys()), request(store.getAll())]);
+  loaded = true;
+  ids.forEach(id => storedKeys.add(String(id)));
+  return Object.fromEntries(ids.map((id, i) => [String(id), values[i] as string]));
+}
+
+// Stores whatever in `pool` isn't stored yet; content-addressed entries never change.
+export async function storeData(pool: DataPool) {
+  const tx = (await openDB()).transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  const stored = new Set((await request(store.getAllKeys())).map(String));
+  for (const [key, src] of Object.entries(pool)) {
+    if (!stored.has(key)) store.put(src, key);
+  }
+  await done(tx);
+  Object.keys(pool).forEach(key => storedKeys.add(key));
+}
+
+// The part of `pool` that isn't known to be stored yet.
+export function unstoredData(pool: DataPool): DataPool {
+  return Object.fromEntries(Object.entries(pool).filter(([key]) => !storedKeys.has(key)));
+}
+
+// Drops cached keys for files no longer in use, so replaced posters and sounds can be freed.
+export function forgetKeys(kept: Set<string>) {
+  for (const src of keys.keys()) if (!kept.has(src)) keys.delete(src);
+}
+
+// Deletes entries `pool` no longer uses, but only once the stored data has been read this session.
+export async function pruneData(pool: DataPool) {
+  if (!loaded) return;
+  const tx = (await openDB()).transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  const removed = (await request(store.getAllKeys())).map(String).filter(key => !(key in pool));
+  removed.forEach(key => store.delete(key));
+  await done(tx);
+  removed.forEach(key => storedKeys.delete(key));
+}
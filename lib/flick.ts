@@ -0,0 +1,49 @@
+/**
+ * Drag-to-flick physics. The release velocity sets the direction and, under
+ * constant friction, roughly how far the wheel travels. Where it stops is
+ * still picked at random by the caller, so a careful flick can't aim for a
+ * slice; weak flicks get a random push up to the minimum speed.
+ */
+
+const TAU = 2 * Math.PI;
+
+// Deceleration in rad/s²: a minimum flick coasts about three turns in three seconds.
+export const FLICK_FRICTION = 4;
+export const MIN_FLICK_SPEED = 12;
+export const MAX_FLICK_SPEED = 30;
+const MIN_FLICK_TURNS = 2;
+// Only the last moments of a drag count towards the release velocity.
+const VELOCITY_WINDOW_MS = 80;
+
+export type DragSample = { t: number; angle: number; };
+
+// Signed difference between two angles, wrapped to (-π, π].
+export function angleDelta(from: number, to: number) {
+  const d = (to - from) % TAU;
+  if (d > Math.PI) return d - TAU;
+  if (d <= -Math.PI) return d + TAU;
+  return d;
+}
+
+// Angular velocity in rad/s at release; zero if the pointer stopped before letting go.
+export function releaseVelocity(samples: DragSample[], releasedAt: number) {
+  const recent = samples.filter(s => releasedAt - s.t <= VELOCITY_WINDOW_MS);
+  if (recent.length < 2) return 0;
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const dt = (last.t - first.t) / 1000;
+  return dt > 0 ? (last.angle - first.angle) / dt : 0;
+}
+
+// `forward` is how far (0..2π, clockwise) the chosen landing spot is from the current rotation.
+export function flickMotion(velocity: number, forward: number) {
+  const dir = velocity < 0 ? -1 : 1;
+  let speed = Math.min(MAX_FLICK_SPEED, Math.abs(velocity));
+  if (speed < MIN_FLICK_SPEED) speed = MIN_FLICK_SPEED * (1 + Math.random() * 0.5);
+  const offset = dir > 0 || forward === 0 ? forward : TAU - forward;
+  const coast = (speed * speed) / (2 * FLICK_FRICTION);
+  const turns = Math.max(MIN_FLICK_TURNS, Math.round((coast - offset) / TAU));
+  const distance = turns * TAU + offset;
+  // Slowing evenly from `speed` to rest over `distance` takes 2·distance/speed.
+  return { travel: dir * distance, durationMs: (2 * distance / speed) * 1000 };
+}
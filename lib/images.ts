@@ -0,0 +1,98 @@
+import { poolData, type DataPool } from "@/lib/data-store";
+import type { Slice } from "@/lib/slices";
+
+/**
+ * Turn a user-picked image file or a pasted data URL into a small data URL
+ * suitable for localStorage and exports. Images are scaled so the longer side
+ * is at most `maxSize` pixels and re-encoded as JPEG.
+ */
+export async function readImageFile(file: File, maxSize = 320, quality = 0.82): Promise<string> {
+  if (!file.type.startsWith("image/")) throw new Error(`${file.name} is not an image`);
+  const url = URL.createObjectURL(file);
+  try {
+    return await downscale(url, maxSize, quality);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function readImageDataURL(text: string, maxSize = 320, quality = 0.82): Promise<string> {
+  const url = text.trim();
+  if (!url.startsWith("data:image/")) throw new Error("Paste an image data URL (data:image/…)");
+  try {
+    return await downscale(url, maxSize, quality);
+  } catch (e) {
+    console.error("Error reading pasted image:", e);
+    throw new Error("That data URL isn't an image the browser can read");
+  }
+}
+
+async function downscale(src: string, maxSize: number, quality: number) {
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", quality);
+}
+
+// Decoded posters by data URL, so the wheel only decodes each image once.
+const decoded = new Map<string, HTMLImageElement | null>();
+
+/**
+ * The decoded image for `src`, or null while it is still loading (or failed).
+ * `onReady` is called once a newly requested image has decoded.
+ */
+export function posterImage(src: string, onReady: () => void): HTMLImageElement | null {
+  if (decoded.has(src)) return decoded.get(src) ?? null;
+  decoded.set(src, null);
+  const img = new Image();
+  img.src = src;
+  img.decode().then(() => {
+    // Skip posters that were removed while they decoded.
+    if (!decoded.has(src)) return;
+    decoded.set(src, img);
+    onReady();
+  }, e => console.error("Error decoding poster:", e));
+  return null;
+}
+
+// Drops decoded posters that are no longer in `kept`.
+export function forgetPosters(kept: Set<string>) {
+  for (const src of decoded.keys()) if (!kept.has(src)) decoded.delete(src);
+}
+
+// Posters are capped in total, counting each distinct image once, to keep saves and exports manageable.
+export const MAX_POSTER_BYTES = 8 * 1024 * 1024;
+
+export function posterBytes(posters: (string | undefined)[]) {
+  return [...new Set(posters)].reduce((sum, src) => sum + (src?.length ?? 0), 0);
+}
+
+/**
+ * Swaps each slice's poster for its key in `pool`, adding the image there. The
+ * same poster on many slices or history entries is then saved only once.
+ */
+export function poolPosters(slices: Slice[], pool: DataPool): Slice[] {
+  return slices.map(s => {
+    const poster = s.meta?.poster;
+    const key = poster ? poolData(poster, pool) : null;
+    return key ? { ...s, meta: { ...s.meta, poster: key } } : s;
+  });
+}
+
+// The reverse of `poolPosters` on unvalidated data; posters that are already inline are left alone.
+export function unpoolPosters(slices: unknown, pool: unknown): unknown {
+  if (!Array.isArray(slices) || !pool || typeof pool !== "object") return slices;
+  const images = pool as Record<string, unknown>;
+  return slices.map(s => {
+    const meta = (s as { meta?: { poster?: unknown; }; } | null)?.meta;
+    if (!meta || typeof meta.poster !== "string" || typeof images[meta.poster] !== "string") return s;
+    return { ...s, meta: { ...meta, poster: images[meta.poster] } };
+  });
+}
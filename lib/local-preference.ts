@@ -0,0 +1,39 @@
+/**
+ * A device-wide setting stored under its own localStorage key rather than with
+ * the wheels, so every page (the wheel, SpinBlade, Plinketto) reads the same
+ * value. `subscribe` fits `useSyncExternalStore` and also hears changes made
+ * in other tabs. A null value removes the key, leaving the default.
+ */
+export function localPreference(key: string, name: string) {
+  const listeners = new Set<() => void>();
+
+  function read(): string | null {
+    if (typeof window === "undefined") return null;
+    try {
+      return localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  }
+
+  function write(value: string | null) {
+    try {
+      if (value === null) localStorage.removeItem(key);
+      else localStorage.setItem(key, value);
+    } catch (e) {
+      console.error(`Error saving ${name}:`, e);
+    }
+    listeners.forEach(l => l());
+  }
+
+  function subscribe(onChange: () => void) {
+    listeners.add(onChange);
+    window.addEventListener("storage", onChange);
+    return () => {
+      listeners.delete(onChange);
+      window.removeEventListener("storage", onChange);
+    };
+  }
+
+  return { read, write, subscribe };
+}
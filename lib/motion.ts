@@ -0,0 +1,46 @@
+import { useSyncExternalStore } from "react";
+import { localPreference } from "@/lib/local-preference";
+
+/**
+ * Reduced motion. The system `prefers-reduced-motion` setting applies unless
+ * the app setting overrides it, which is kept as a device-wide preference.
+ */
+
+export type MotionPreference = "system" | "reduce" | "full";
+
+const QUERY = "(prefers-reduced-motion: reduce)";
+const stored = localPreference("movieWheel.motion", "motion preference");
+
+export function readMotionPreference(): MotionPreference {
+  const v = stored.read();
+  return v === "reduce" || v === "full" ? v : "system";
+}
+
+export function setMotionPreference(pref: MotionPreference) {
+  stored.write(pref === "system" ? null : pref);
+}
+
+export function prefersReducedMotion() {
+  const pref = readMotionPreference();
+  if (pref !== "system") return pref === "reduce";
+  return typeof window !== "undefined" && window.matchMedia?.(QUERY).matches === true;
+}
+
+// The system setting can change too.
+function subscribe(onChange: () => void) {
+  const media = window.matchMedia?.(QUERY);
+  media?.addEventListener("change", onChange);
+  const unsubscribe = stored.subscribe(onChange);
+  return () => {
+    media?.removeEventListener("change", onChange);
+    unsubscribe();
+  };
+}
+
+export function useReducedMotion() {
+  return useSyncExternalStore(subscribe, prefersReducedMotion, () => false);
+}
+
+export function useMotionPreference() {
+  return useSyncExternalStore(subscribe, readMotionPreference, (): MotionPreference => "system");
+}
@@ -0,0 +1,153 @@
+import { DEFAULT_COLORS, HEX_COLOR, uid } from "@/lib/slices";
+
+/**
+ * Color palettes for slices. Built-in palettes ship with the app, including
+ * ones chosen to stay distinguishable with common color vision deficiencies;
+ * user palettes are saved alongside the wheels. Colors are hex strings.
+ */
+
+export type Palette = {
+  id: string;
+  name: string;
+  colors: string[];
+  builtIn?: boolean;
+  colorblindSafe?: boolean;
+};
+
+export const DEFAULT_PALETTE_ID = "default";
+
+export const BUILT_IN_PALETTES: Palette[] = [
+  { id: DEFAULT_PALETTE_ID, name: "Default", colors: DEFAULT_COLORS, builtIn: true },
+  {
+    id: "pastel",
+    name: "Pastel",
+    colors: ["#fca5a5", "#fdba74", "#fde047", "#bef264", "#86efac", "#5eead4", "#7dd3fc", "#a5b4fc", "#d8b4fe", "#f9a8d4"],
+    builtIn: true,
+  },
+  {
+    id: "night",
+    name: "Night",
+    colors: ["#1e3a8a", "#7c2d12", "#14532d", "#581c87", "#831843", "#134e4a", "#713f12", "#312e81"],
+    builtIn: true,
+  },
+  // Okabe & Ito's palette for color vision deficiencies.
+  {
+    id: "okabe-ito",
+    name: "Okabe–Ito",
+    colors: ["#e69f00", "#56b4e9", "#009e73", "#f0e442", "#0072b2", "#d55e00", "#cc79a7", "#000000"],
+    builtIn: true,
+    colorblindSafe: true,
+  },
+  // Paul Tol's "bright" and "vibrant" qualitative schemes.
+  {
+    id: "tol-bright",
+    name: "Tol bright",
+    colors: ["#4477aa", "#ee6677", "#228833", "#ccbb44", "#66ccee", "#aa3377", "#bbbbbb"],
+    builtIn: true,
+    colorblindSafe: true,
+  },
+  {
+    id: "tol-vibrant",
+    name: "Tol vibrant",
+    colors: ["#ee7733", "#0077bb", "#33bbee", "#ee3377", "#cc3311", "#009988", "#bbbbbb"],
+    builtIn: true,
+    colorblindSafe: true,
+  },
+];
+
+export const MAX_PALETTE_COLORS = 24;
+
+export function findPalette(id: string, custom: Palette[]) {
+  return BUILT_IN_PALETTES.find(p => p.id === id) ?? custom.find(p => p.id === id) ?? BUILT_IN_PALETTES[0];
+}
+
+// Unique, valid hex colors from free text like "#f00, #22c55e".
+export function parseColors(text: string) {
+  const colors = text.split(/[\s,;]+/).map(c => c.trim().toLowerCase()).filter(c => HEX_COLOR.test(c));
+  return [...new Set(colors)].slice(0, MAX_PALETTE_COLORS);
+}
+
+export function createPalette(name: string, colors: string[]): Palette {
+  return { id: uid(), name: name.trim() || "My palette", colors };
+}
+
+export function sanitizePalettes(data: unknown): Palette[] {
+  if (!Array.isArray(data)) return [];
+  return data.flatMap(d => {
+    if (!d || typeof d !== "object") return [];
+    const { id, name, colors } = d as Record<string, unknown>;
+    const valid = Array.isArray(colors) ? parseColors(colors.filter(c => typeof c === "string").join(",")) : [];
+    if (typeof id !== "string" || !id || BUILT_IN_PALETTES.some(p => p.id === id) || !valid.length) return [];
+    return [{ id, name: typeof name === "string" && name.trim() ? name.trim() : "My palette", colors: valid }];
+  });
+}
+
+// Colors for `count` slices in wheel order so that no two neighbours match, the last and first included.
+// With `shuffle` the palette is dealt in random order, otherwise it cycles in order.
+// Palettes with a single color (or two colors on an odd wheel) can't avoid every repeat.
+export function spreadColors(count: number, palette: string[], shuffle = false) {
+  const colors = [...new Set(palette.map(c => c.toLowerCase()))];
+  if (!colors.length) return Array<string>(count).fill(DEFAULT_COLORS[0]);
+  const out: string[] = [];
+  let deck: string[] = [];
+  for (let i = 0; i < count; i++) {
+    if (!deck.length) deck = shuffle ? shuffled(colors) : colors.slice();
+    const avoid = new Set([out[i - 1], i === count - 1 && count > 1 ? out[0] : undefined]);
+    let at = deck.findIndex(c => !avoid.has(c));
+    if (at === -1) {
+      // Everything left in this round clashes; borrow a color from the next one.
+      const spare = colors.filter(c => !avoid.has(c));
+      deck.unshift(spare.length ? spare[Math.floor(Math.random() * spare.length)] : deck[0]);
+      at = 0;
+    }
+    out.push(deck.splice(at, 1)[0]);
+  }
+  return out;
+}
+
+// A palette color for a slice added after `existing`, unlike its neighbours on either side.
+export function nextColor(existing: string[], palette: string[]) {
+  if (!palette.length) return DEFAULT_COLORS[0];
+  const avoid = new Set([existing[existing.length - 1], existing[0]].map(c => c?.toLowerCase()));
+  for (let k = 0; k < palette.length; k++) {
+    const c = palette[(existing.length + k) % palette.length];
+    if (!avoid.has(c.toLowerCase())) return c;
+  }
+  return palette[existing.length % palette.length];
+}
+
+function shuffled<T>(list: T[]) {
+  const a = list.slice();
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+function channel(v: number) {
+  const s = v / 255;
+  return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+}
+
+// WCAG relative luminance of a hex color.
+export function luminance(hex: string) {
+  let h = hex.replace("#", "");
+  if (h.length === 3) h = h.split("").map(c => c + c).join("");
+  const n = parseInt(h, 16);
+  if (!Number.isFinite(n)) return 0;
+  return 0.2126 * channel((n >> 16) & 255) + 0.7152 * channel((n >> 8) & 255) + 0.0722 * channel(n & 255);
+}
+
+export function contrastRatio(a: string, b: string) {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+const DARK_TEXT = "#0a0a0a";
+const LIGHT_TEXT = "#ffffff";
+
+// Whichever of near-black or white reads better on `background`.
+export function textColorFor(background: string) {
+  return contrastRatio(background, DARK_TEXT) >= contrastRatio(background, LIGHT_TEXT) ? DARK_TEXT : LIGHT_TEXT;
+}
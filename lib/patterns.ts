@@ -0,0 +1,90 @@
+import { useSyncExternalStore } from "react";
+import { localPreference } from "@/lib/local-preference";
+import { textColorFor } from "@/lib/palettes";
+
+/**
+ * Pattern fills that tell slices apart without relying on color. Each pattern
+ * is one SVG path on a small square tile, so the same shapes can fill canvas
+ * wedges (through Path2D) and DOM swatches (as an SVG background image). The
+ * ink is black or white, whichever reads better on the slice color.
+ *
+ * Whether patterns are shown is a device-wide setting stored on its own, like
+ * the motion preference, so the wheel and SpinBlade agree.
+ */
+
+export type PatternKind = "stripes" | "dots" | "crosshatch" | "chevrons" | "checks" | "waves";
+
+type PatternTile = { path: string; mode: "fill" | "stroke"; width?: number; };
+
+const TILE = 12;
+const INK_ALPHA = 0.45;
+
+const TILES: Record<PatternKind, PatternTile> = {
+  stripes: { path: "M-3,3 L3,-3 M0,12 L12,0 M9,15 L15,9", mode: "stroke", width: 2 },
+  dots: { path: "M1.4,3 a1.6,1.6 0 1,0 3.2,0 a1.6,1.6 0 1,0 -3.2,0 M7.4,9 a1.6,1.6 0 1,0 3.2,0 a1.6,1.6 0 1,0 -3.2,0", mode: "fill" },
+  crosshatch: { path: "M0,0 L12,12 M12,0 L0,12", mode: "stroke", width: 1.2 },
+  chevrons: { path: "M0,9 L6,3 L12,9", mode: "stroke", width: 1.8 },
+  checks: { path: "M0,0 H6 V6 H0 Z M6,6 H12 V12 H6 Z", mode: "fill" },
+  waves: { path: "M0,6 Q3,2 6,6 T12,6", mode: "stroke", width: 1.5 },
+};
+
+export const PATTERN_KINDS = Object.keys(TILES) as PatternKind[];
+
+// Patterns go round in a fixed order so neighbouring slices get different ones.
+export function patternFor(index: number): PatternKind {
+  return PATTERN_KINDS[((index % PATTERN_KINDS.length) + PATTERN_KINDS.length) % PATTERN_KINDS.length];
+}
+
+function inkFor(background: string) {
+  return textColorFor(background) === "#ffffff" ? `rgba(255,255,255,${INK_ALPHA})` : `rgba(0,0,0,${INK_ALPHA})`;
+}
+
+const tiles = new Map<string, HTMLCanvasElement>();
+
+// A repeating canvas pattern for `kind` over a `background` fill.
+export function canvasPattern(ctx: CanvasRenderingContext2D, kind: PatternKind, background: string) {
+  const ink = inkFor(background);
+  const key = `${kind}|${ink}`;
+  let tile = tiles.get(key);
+  if (!tile) {
+    tile = document.createElement("canvas");
+    tile.width = TILE;
+    tile.height = TILE;
+    const t = tile.getContext("2d");
+    if (!t) return null;
+    const { path, mode, width } = TILES[kind];
+    if (mode === "fill") {
+      t.fillStyle = ink;
+      t.fill(new Path2D(path));
+    } else {
+      t.strokeStyle = ink;
+      t.lineWidth = width ?? 1;
+      t.stroke(new Path2D(path));
+    }
+    tiles.set(key, tile);
+  }
+  return ctx.createPattern(tile, "repeat");
+}
+
+// CSS `background` for a swatch: the pattern as an SVG image over the flat color.
+export function patternBackground(kind: PatternKind, background: string) {
+  const { path, mode, width } = TILES[kind];
+  const ink = inkFor(background);
+  const paint = mode === "fill" ? `fill="${ink}"` : `fill="none" stroke="${ink}" stroke-width="${width ?? 1}"`;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${TILE}" height="${TILE}"><path d="${path}" ${paint}/></svg>`;
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}") 0 0 / ${TILE / 2}px ${TILE / 2}px repeat, ${background}`;
+}
+
+const stored = localPreference("movieWheel.patterns", "pattern preference");
+
+export function readPatternsEnabled() {
+  return stored.read() === "on";
+}
+
+export function setPatternsEnabled(on: boolean) {
+  stored.write(on ? "on" : null);
+}
+
+export function usePatterns() {
+  return useSyncExternalStore(stored.subscribe, readPatternsEnabled, () => false);
+}
@@ -0,0 +1,61 @@
+import type { Slice } from "@/lib/slices";
+
+/**
+ * Spin filters. A slice is eligible when it passes every rule that is set;
+ * rules left empty don't restrict anything. Slices without the data a rule
+ * needs (no runtime, no genres) are treated as not matching that rule.
+ */
+
+export type SliceFilter = {
+  maxRuntime: number | null;
+  genres: string[];
+  excludeSuggestedBy: string[];
+  hideExcluded: boolean;
+};
+
+export const EMPTY_FILTER: SliceFilter = { maxRuntime: null, genres: [], excludeSuggestedBy: [], hideExcluded: false };
+
+const fold = (s: string) => s.trim().toLowerCase();
+
+export function isFilterActive(f: SliceFilter) {
+  return f.maxRuntime !== null || f.genres.length > 0 || f.excludeSuggestedBy.length > 0;
+}
+
+export function matchesFilter(slice: Slice, f: SliceFilter) {
+  const meta = slice.meta ?? {};
+  if (f.maxRuntime !== null && !(meta.runtime !== undefined && meta.runtime < f.maxRuntime)) return false;
+  if (f.genres.length) {
+    const wanted = new Set(f.genres.map(fold));
+    if (!meta.genres?.some(g => wanted.has(fold(g)))) return false;
+  }
+  if (f.excludeSuggestedBy.length && meta.suggestedBy) {
+    if (f.excludeSuggestedBy.some(p => fold(p) === fold(meta.suggestedBy as string))) return false;
+  }
+  return true;
+}
+
+// Genres and people that appear on the wheel, for building the filter controls.
+export function filterOptions(slices: Slice[]) {
+  const genres = new Map<string, string>();
+  const people = new Map<string, string>();
+  for (const s of slices) {
+    for (const g of s.meta?.genres ?? []) if (!genres.has(fold(g))) genres.set(fold(g), g);
+    const who = s.meta?.suggestedBy;
+    if (who && !people.has(fold(who))) people.set(fold(who), who);
+  }
+  const sorted = (m: Map<string, string>) => [...m.values()].sort((a, b) => a.localeCompare(b));
+  return { genres: sorted(genres), people: sorted(people) };
+}
+
+export function sanitizeFilter(data: unknown): SliceFilter {
+  if (!data || typeof data !== "object") return EMPTY_FILTER;
+  const d = data as Record<string, unknown>;
+  const strings = (v: unknown) => (Array.isArray(v) ? v.filter((x): x is string => typeof x === "string" && x.trim() !== "") : []);
+  const max = Number(d.maxRuntime);
+  return {
+    maxRuntime: d.maxRuntime !== null && Number.isFinite(max) && max > 0 ? Math.round(max) : null,
+    genres: strings(d.genres),
+    excludeSuggestedBy: strings(d.excludeSuggestedBy),
+    hideExcluded: d.hideExcluded === true,
+  };
+}
@@ -0,0 +1,139 @@
+import { nextColor } from "@/lib/palettes";
+import { normalizeWeight, pickColor, uid, type Slice } from "@/lib/slices";
+import { findSimilarSlice, normalizeTitle } from "@/lib/titles";
+
+/**
+ * Bulk import helpers: pasted title lists, CSV in and out, and the
+ * add / merge / skip plan shown to the user before anything changes.
+ */
+
+export type IncomingSlice = { label: string; color?: string; weight?: number; notes?: string; };
+
+export type ImportAction =
+  | { kind: "add"; incoming: IncomingSlice; }
+  | { kind: "merge"; incoming: IncomingSlice; target: Slice; }
+  | { kind: "skip"; incoming: IncomingSlice; reason: string; target?: Slice; };
+
+export const CSV_COLUMNS = ["label", "color", "weight", "notes"] as const;
+
+// Strip list markers people paste from chats: "- ", "* ", "• ", "1. ", "2) ".
+const LIST_MARKER = /^\s*(?:[-*•·]+|\d+[.)])\s+/;
+
+export function parseTitleList(text: string): IncomingSlice[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(LIST_MARKER, "").trim())
+    .filter(Boolean)
+    .map(label => ({ label }));
+}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF or LF.
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field); field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field); field = "";
+      rows.push(row); row = [];
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+// True when the text starts with a header row naming a `label` column.
+export function looksLikeCSV(text: string) {
+  const first = text.split(/\r?\n/, 1)[0] ?? "";
+  return first.includes(",") && first.split(",").some(h => h.trim().toLowerCase() === "label");
+}
+
+export function parseSliceCSV(text: string): IncomingSlice[] {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) return [];
+  const col = (name: string) => header.findIndex(h => h.trim().toLowerCase() === name);
+  const [labelAt, colorAt, weightAt, notesAt] = CSV_COLUMNS.map(col);
+  if (labelAt === -1) throw new Error('The CSV needs a "label" column.');
+  return rows.map(r => {
+    const incoming: IncomingSlice = { label: (r[labelAt] ?? "").trim() };
+    const color = colorAt === -1 ? "" : (r[colorAt] ?? "").trim();
+    const weight = weightAt === -1 ? "" : (r[weightAt] ?? "").trim();
+    const notes = notesAt === -1 ? "" : (r[notesAt] ?? "").trim();
+    if (/^#[0-9a-f]{6}$/i.test(color)) incoming.color = color.toLowerCase();
+    if (weight) incoming.weight = normalizeWeight(weight);
+    if (notes) incoming.notes = notes;
+    return incoming;
+  });
+}
+
+function csvField(v: string) {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+export function slicesToCSV(slices: Slice[]) {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const s of slices) {
+    lines.push([s.label, s.color, String(s.weight), s.notes ?? ""].map(csvField).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// Existing slices are matched by normalized title with a small typo allowance (see lib/titles).
+// Entries that match and bring new color, weight or notes are merged; bare duplicates are skipped.
+export function planImport(existing: Slice[], incoming: IncomingSlice[]): ImportAction[] {
+  const seen = new Set<string>();
+  return incoming.map((inc): ImportAction => {
+    const key = normalizeTitle(inc.label);
+    if (!key) return { kind: "skip", incoming: inc, reason: "Empty title" };
+    if (seen.has(key)) return { kind: "skip", incoming: inc, reason: "Listed twice" };
+    seen.add(key);
+    const match = findSimilarSlice(inc.label, existing);
+    if (!match) return { kind: "add", incoming: inc };
+    const target = match.slice;
+    const changes = (inc.color && inc.color !== target.color)
+      || (inc.weight !== undefined && inc.weight !== target.weight)
+      || (inc.notes && inc.notes !== target.notes);
+    if (!changes) {
+      const reason = match.exact ? "Already on the wheel" : `Looks like “${target.label}”`;
+      return { kind: "skip", incoming: inc, reason, target };
+    }
+    return { kind: "merge", incoming: inc, target };
+  });
+}
+
+// Added slices without a color take the next one from `palette`, or the default colors.
+export function applyImportPlan(existing: Slice[], plan: ImportAction[], palette?: string[]): Slice[] {
+  const merges = new Map<string, IncomingSlice>();
+  for (const a of plan) if (a.kind === "merge") merges.set(a.target.id, a.incoming);
+  const next = existing.map(s => {
+    const inc = merges.get(s.id);
+    if (!inc) return s;
+    return {
+      ...s,
+      color: inc.color ?? s.color,
+      weight: inc.weight ?? s.weight,
+      ...(inc.notes ? { notes: inc.notes } : {}),
+    };
+  });
+  for (const a of plan) {
+    if (a.kind !== "add") continue;
+    const { label, color, weight, notes } = a.incoming;
+    const slice: Slice = { id: uid(), label: label.trim(), color: color ?? (palette ? nextColor(next.map(s => s.color), palette) : pickColor(next.length)), weight: weight ?? 1 };
+    if (notes) slice.notes = notes;
+    next.push(slice);
+  }
+  return next;
+}
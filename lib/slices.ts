@@ -0,0 +1,100 @@
+// Optional details about the movie behind a slice. `poster` is a downscaled image data URL.
+export type MovieMeta = {
+  year?: number;
+  runtime?: number;
+  genres?: string[];
+  suggestedBy?: string;
+  streaming?: string;
+  poster?: string;
+};
+
+export type Slice = { id: string; label: string; color: string; weight: number; notes?: string; meta?: MovieMeta; };
+
+export const DEFAULT_COLORS = [
+  "#22c55e", "#3b82f6", "#f59e0b", "#ef4444", "#a855f7", "#14b8a6",
+  "#eab308", "#f97316", "#06b6d4", "#84cc16", "#ec4899", "#8b5cf6"
+];
+
+// Slice colors end up in canvas fills and inline styles, so only plain hex colors are accepted.
+export const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function uid() {
+  return Math.random().toString(36).slice(2, 9);
+}
+
+export function pickColor(i: number) {
+  return DEFAULT_COLORS[i % DEFAULT_COLORS.length];
+}
+
+export function normalizeWeight(w: unknown) {
+  const n = Number(w);
+  return Number.isFinite(n) && n > 0 ? Math.min(100, n) : 1;
+}
+
+export function defaultSlices(): Slice[] {
+  return [
+    { id: uid(), label: "Inception", color: pickColor(0), weight: 1 },
+    { id: uid(), label: "The Matrix", color: pickColor(1), weight: 1 },
+    { id: uid(), label: "Spirited Away", color: pickColor(2), weight: 1 }
+  ];
+}
+
+function optionalText(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
+function optionalInt(v: unknown, min: number, max: number) {
+  const n = typeof v === "string" && v.trim() ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) && n >= min && n <= max ? Math.round(n) : undefined;
+}
+
+export function parseGenres(v: unknown): string[] | undefined {
+  const list = Array.isArray(v) ? v : typeof v === "string" ? v.split(",") : [];
+  const genres = [...new Set(list.filter((g): g is string => typeof g === "string").map(g => g.trim()).filter(Boolean))];
+  return genres.length ? genres : undefined;
+}
+
+// Drops empty fields so a slice without details carries no `meta` at all.
+export function sanitizeMeta(data: unknown): MovieMeta | undefined {
+  if (!data || typeof data !== "object") return undefined;
+  const d = data as Record<string, unknown>;
+  const meta: MovieMeta = {
+    year: optionalInt(d.year, 1870, 2200),
+    runtime: optionalInt(d.runtime, 1, 1000),
+    genres: parseGenres(d.genres),
+    suggestedBy: optionalText(d.suggestedBy),
+    streaming: optionalText(d.streaming),
+    poster: typeof d.poster === "string" && d.poster.startsWith("data:image/") ? d.poster : undefined,
+  };
+  for (const k of Object.keys(meta) as (keyof MovieMeta)[]) {
+    if (meta[k] === undefined) delete meta[k];
+  }
+  return Object.keys(meta).length ? meta : undefined;
+}
+
+export function formatRuntime(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h ? `${h}h ${String(m).padStart(2, "0")}m` : `${m}m`;
+}
+
+// Coerce untrusted data (storage, imported files) into slices. Returns null if it isn't a list of labelled entries.
+export function sanitizeSlices(data: unknown): Slice[] | null {
+  if (!Array.isArray(data)) return null;
+  if (!data.every(d => d && typeof d === "object" && typeof d.label === "string")) return null;
+  const seen = new Set<string>();
+  return data.map((d, i) => {
+    const id = typeof d.id === "string" && d.id && !seen.has(d.id) ? d.id : uid();
+    seen.add(id);
+    const slice: Slice = {
+      id,
+      label: d.label,
+      color: typeof d.color === "string" && HEX_COLOR.test(d.color) ? d.color : pickColor(i),
+      weight: normalizeWeight(d.weight ?? 1),
+    };
+    if (typeof d.notes === "string" && d.notes) slice.notes = d.notes;
+    const meta = sanitizeMeta(d.meta);
+    if (meta) slice.meta = meta;
+    return slice;
+  });
+}
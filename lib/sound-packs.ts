@@ -0,0 +1,235 @@
+/**
+ * Sound packs for the wheel. Each pack synthesizes a tick (played as a slice
+ * passes the pointer) and a win fanfare with Web Audio, into the output node
+ * it is given so the master volume applies. Uploaded audio files can replace
+ * either sound; they are kept as data URLs and decoded once per file.
+ */
+
+export type SoundPackId = "classic" | "ratchet" | "arcade" | "silent";
+
+export type SoundKind = "tick" | "win";
+
+// Uploaded replacements for the pack's sounds, as audio data URLs.
+export type CustomSounds = Partial<Record<SoundKind, string>>;
+
+type Synth = (ctx: AudioContext, out: AudioNode) => void;
+
+export const SOUND_PACKS: Record<SoundPackId, { label: string; description: string; tick: Synth; win: Synth; }> = {
+  classic: { label: "Classic", description: "A plastic click and a bright three-note chime.", tick: classicTick, win: classicWin },
+  ratchet: { label: "Wooden ratchet", description: "A wooden clack and a marimba run.", tick: ratchetTick, win: ratchetWin },
+  arcade: { label: "Arcade", description: "Square-wave blips and a level-up jingle.", tick: arcadeTick, win: arcadeWin },
+  silent: { label: "Silent", description: "No sounds unless you upload your own.", tick: () => { }, win: () => { } },
+};
+
+export const SOUND_PACK_IDS = Object.keys(SOUND_PACKS) as SoundPackId[];
+
+export const DEFAULT_SOUND_PACK: SoundPackId = "classic";
+
+export const MAX_AUDIO_BYTES = 300 * 1024;
+
+// Uploaded ticks are cut to the length of a built-in one, so a fast spin doesn't pile clips on top of each other.
+export const MAX_TICK_SECS = 0.15;
+const CUT_FADE_SECS = 0.02;
+
+export function readAudioFile(file: File): Promise<string> {
+  if (!file.type.startsWith("audio/")) return Promise.reject(new Error(`${file.name} is not an audio file`));
+  if (file.size > MAX_AUDIO_BYTES) {
+    return Promise.reject(new Error(`${file.name} is too large (${Math.round(file.size / 1024)} KB); keep sounds under ${MAX_AUDIO_BYTES / 1024} KB`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error(`Couldn't read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+export function sanitizeCustomSounds(data: unknown): CustomSounds {
+  if (!data || typeof data !== "object") return {};
+  const d = data as Record<string, unknown>;
+  const out: CustomSounds = {};
+  for (const kind of ["tick", "win"] as const) {
+    const src = d[kind];
+    if (typeof src === "string" && src.startsWith("data:audio/")) out[kind] = src;
+  }
+  return out;
+}
+
+const buffers = new Map<string, AudioBuffer | null>();
+
+/**
+ * The decoded buffer for an uploaded sound, or null while it is decoding (or
+ * if it couldn't be decoded). The first call starts decoding.
+ */
+export function customBuffer(ctx: AudioContext, src: string): AudioBuffer | null {
+  if (buffers.has(src)) return buffers.get(src) ?? null;
+  buffers.set(src, null);
+  fetch(src)
+    .then(r => r.arrayBuffer())
+    .then(data => ctx.decodeAudioData(data))
+    // Skip sounds that were replaced while they decoded.
+    .then(buffer => { if (buffers.has(src)) buffers.set(src, buffer); })
+    .catch(e => console.error("Error decoding custom sound:", e));
+  return null;
+}
+
+// Frees a replaced or removed upload.
+export function forgetBuffer(src: string) {
+  buffers.delete(src);
+}
+
+// Plays `buffer`, cut to `maxSecs` with a short fade when it is longer.
+export function playBuffer(ctx: AudioContext, out: AudioNode, buffer: AudioBuffer, maxSecs = Infinity) {
+  const now = ctx.currentTime;
+  const dur = Math.min(buffer.duration, maxSecs);
+  const src = ctx.createBufferSource();
+  const g = ctx.createGain();
+  src.buffer = buffer;
+  if (dur < buffer.duration) {
+    g.gain.setValueAtTime(1, now + Math.max(0, dur - CUT_FADE_SECS));
+    g.gain.linearRampToValueAtTime(0, now + dur);
+  }
+  src.connect(g);
+  g.connect(out);
+  src.onended = () => {
+    src.disconnect();
+    g.disconnect();
+  };
+  src.start(now, 0, dur);
+}
+
+// A short burst of white noise shaped by a decaying envelope.
+function noiseBuffer(ctx: AudioContext, seconds: number, decay: number) {
+  const buf = ctx.createBuffer(1, Math.floor(ctx.sampleRate * seconds), ctx.sampleRate);
+  const data = buf.getChannelData(0);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (Math.random() * 2 - 1) * Math.exp(-decay * (i / data.length));
+  }
+  return buf;
+}
+
+// One enveloped oscillator note, disconnected once it ends.
+function note(ctx: AudioContext, out: AudioNode, type: OscillatorType, freq: number, start: number, dur: number, peak = 1) {
+  const osc = ctx.createOscillator();
+  const g = ctx.createGain();
+  osc.type = type;
+  osc.frequency.value = freq;
+  g.gain.setValueAtTime(0, start);
+  g.gain.linearRampToValueAtTime(peak, start + 0.01);
+  g.gain.exponentialRampToValueAtTime(0.001, start + dur - 0.02);
+  osc.connect(g);
+  g.connect(out);
+  osc.onended = () => {
+    osc.disconnect();
+    g.disconnect();
+  };
+  osc.start(start);
+  osc.stop(start + dur);
+}
+
+function classicTick(ctx: AudioContext, out: AudioNode) {
+  const now = ctx.currentTime;
+
+  const osc = ctx.createOscillator();
+  osc.type = "triangle";
+  osc.frequency.setValueAtTime(900, now);
+  osc.frequency.exponentialRampToValueAtTime(640, now + 0.09);
+
+  const bodyFilter = ctx.createBiquadFilter();
+  bodyFilter.type = "bandpass";
+  bodyFilter.frequency.value = 800;
+  bodyFilter.Q.value = 0.9;
+
+  const bodyGain = ctx.createGain();
+  bodyGain.gain.setValueAtTime(0.0001, now);
+  bodyGain.gain.exponentialRampToValueAtTime(0.9, now + 0.005);
+  bodyGain.gain.exponentialRampToValueAtTime(0.001, now + 0.12);
+
+  osc.connect(bodyFilter);
+  bodyFilter.connect(bodyGain);
+  bodyGain.connect(out);
+
+  const noiseDur = 0.045;
+  const noiseSrc = ctx.createBufferSource();
+  noiseSrc.buffer = noiseBuffer(ctx, noiseDur, 5);
+
+  const noiseFilter = ctx.createBiquadFilter();
+  noiseFilter.type = "highpass";
+  noiseFilter.frequency.value = 1200;
+
+  const noiseGain = ctx.createGain();
+  noiseGain.gain.setValueAtTime(0.0001, now);
+  noiseGain.gain.linearRampToValueAtTime(0.6, now + 0.002);
+  noiseGain.gain.exponentialRampToValueAtTime(0.0001, now + noiseDur);
+
+  noiseSrc.connect(noiseFilter);
+  noiseFilter.connect(noiseGain);
+  noiseGain.connect(out);
+
+  osc.start(now);
+  noiseSrc.start(now);
+  osc.stop(now + 0.13);
+  noiseSrc.stop(now + noiseDur);
+
+  const cleanupMs = Math.ceil((0.15 + 0.05) * 1000);
+  setTimeout(() => {
+    try {
+      osc.disconnect();
+      bodyFilter.disconnect();
+      bodyGain.disconnect();
+      noiseSrc.disconnect();
+      noiseFilter.disconnect();
+      noiseGain.disconnect();
+    } catch (e) {
+      console.error("Error cleaning up audio nodes:", e);
+    }
+  }, cleanupMs);
+}
+
+function classicWin(ctx: AudioContext, out: AudioNode) {
+  const now = ctx.currentTime;
+  const freqs = [880, 1244, 1661];
+  const dur = 0.125;
+  freqs.forEach((f, i) => note(ctx, out, "triangle", f, now + i * dur, dur));
+}
+
+// A dry knock: band-passed noise for the clack over a quick low thump.
+function ratchetTick(ctx: AudioContext, out: AudioNode) {
+  const now = ctx.currentTime;
+  const noiseSrc = ctx.createBufferSource();
+  noiseSrc.buffer = noiseBuffer(ctx, 0.03, 8);
+  const filter = ctx.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.frequency.value = 2200;
+  filter.Q.value = 4;
+  const gain = ctx.createGain();
+  gain.gain.value = 1.4;
+  noiseSrc.connect(filter);
+  filter.connect(gain);
+  gain.connect(out);
+  noiseSrc.onended = () => {
+    noiseSrc.disconnect();
+    filter.disconnect();
+    gain.disconnect();
+  };
+  noiseSrc.start(now);
+  note(ctx, out, "sine", 180, now, 0.05, 0.5);
+}
+
+// Marimba-like: each note is a sine with a quiet fourth harmonic, decaying fast.
+function ratchetWin(ctx: AudioContext, out: AudioNode) {
+  const now = ctx.currentTime;
+  [523, 659, 784, 1047].forEach((f, i) => {
+    note(ctx, out, "sine", f, now + i * 0.11, 0.35);
+    note(ctx, out, "sine", f * 4, now + i * 0.11, 0.08, 0.15);
+  });
+}
+
+function arcadeTick(ctx: AudioContext, out: AudioNode) {
+  note(ctx, out, "square", 1200, ctx.currentTime, 0.04, 0.25);
+}
+
+function arcadeWin(ctx: AudioContext, out: AudioNode) {
+  const now = ctx.currentTime;
+  [523, 659, 784, 1047, 784, 1047].forEach((f, i) => note(ctx, out, "square", f, now + i * 0.08, i === 5 ? 0.3 : 0.08, 0.3));
+}
@@ -0,0 +1,151 @@
+/**
+ * Spin profiles: how a button spin travels from the current rotation to its
+ * target. Each profile turns a travel distance into a curve over normalized
+ * time (0..1) that returns the share of the travel covered. Curves may go past
+ * 1 on the way (overshoot, flapper) but always end at exactly 1.
+ */
+
+export type SpinProfileKind = "classic" | "suspense" | "overshoot" | "flapper";
+
+export type SpinProfileSettings = {
+  kind: SpinProfileKind;
+  // Full turns before landing; each spin adds up to two more at random.
+  turns: number;
+  classic: { sharpness: number; };
+  suspense: { creepSlices: number; creepShare: number; };
+  overshoot: { overshootDeg: number; settleShare: number; };
+  flapper: { bounces: number; bounceShare: number; };
+};
+
+export type ProfileParam = { key: string; label: string; min: number; max: number; step: number; format: (v: number) => string; };
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+export const SPIN_PROFILES: Record<SpinProfileKind, { label: string; description: string; params: ProfileParam[]; }> = {
+  classic: {
+    label: "Classic",
+    description: "Fast start, smooth stop.",
+    params: [{ key: "sharpness", label: "Braking", min: 2, max: 6, step: 0.5, format: v => `${v}×` }],
+  },
+  suspense: {
+    label: "Suspense",
+    description: "Slows right down and creeps past the last few slices.",
+    params: [
+      { key: "creepSlices", label: "Creeps past", min: 1, max: 5, step: 1, format: v => `${v} slice${v === 1 ? "" : "s"}` },
+      { key: "creepShare", label: "Time spent creeping", min: 0.2, max: 0.6, step: 0.05, format: percent },
+    ],
+  },
+  overshoot: {
+    label: "Overshoot",
+    description: "Runs a little past its spot, then settles back.",
+    params: [
+      { key: "overshootDeg", label: "Overshoot", min: 3, max: 30, step: 1, format: v => `${v}°` },
+      { key: "settleShare", label: "Time settling back", min: 0.1, max: 0.4, step: 0.05, format: percent },
+    ],
+  },
+  flapper: {
+    label: "Flapper",
+    description: "Hits the pointer at the next border and bounces back.",
+    params: [
+      { key: "bounces", label: "Bounces", min: 1, max: 4, step: 1, format: v => String(v) },
+      { key: "bounceShare", label: "Time bouncing", min: 0.1, max: 0.4, step: 0.05, format: percent },
+    ],
+  },
+};
+
+export const DEFAULT_SPIN_PROFILE: SpinProfileSettings = {
+  kind: "classic",
+  turns: 4,
+  classic: { sharpness: 3 },
+  suspense: { creepSlices: 2, creepShare: 0.4 },
+  overshoot: { overshootDeg: 12, settleShare: 0.2 },
+  flapper: { bounces: 2, bounceShare: 0.25 },
+};
+
+export const PROFILE_KINDS = Object.keys(SPIN_PROFILES) as SpinProfileKind[];
+
+const TAU = 2 * Math.PI;
+
+const easeOutPow = (p: number) => (t: number) => 1 - Math.pow(1 - t, p);
+const easeOutCubic = easeOutPow(3);
+
+export type SpinPlan = { travel: number; curve: (t: number) => number; };
+
+// `forward` is how far the landing spot is from the current rotation (0..2π); `sliceAngle` is a typical
+// slice's size and `room` how much further the wheel could turn before the landing slice's border reaches
+// the pointer. All in radians.
+export function planSpin(settings: SpinProfileSettings, forward: number, sliceAngle: number, room: number): SpinPlan {
+  const turns = settings.turns + Math.floor(Math.random() * 3);
+  const travel = turns * TAU + forward;
+
+  switch (settings.kind) {
+    case "suspense": {
+      // Two stretches of even braking: a long fast one, then a slow crawl over the last few slices.
+      const { creepSlices, creepShare: s } = settings.suspense;
+      const c = Math.min(0.5, (creepSlices * sliceAngle) / travel);
+      const t1 = 1 - s;
+      const v1 = (2 * c) / s;
+      const v0 = (2 * (1 - c)) / t1 - v1;
+      if (v0 < v1) return { travel, curve: easeOutCubic };
+      return {
+        travel,
+        curve: t => {
+          if (t <= t1) return v0 * t + ((v1 - v0) * t * t) / (2 * t1);
+          const u = t - t1;
+          return 1 - c + v1 * u - (v1 * u * u) / (2 * s);
+        },
+      };
+    }
+    case "overshoot": {
+      const { overshootDeg, settleShare: s } = settings.overshoot;
+      const o = (overshootDeg * Math.PI) / 180 / travel;
+      return {
+        travel,
+        curve: t => (t <= 1 - s
+          ? (1 + o) * easeOutCubic(t / (1 - s))
+          : 1 + (o * (1 + Math.cos((Math.PI * (t - (1 - s))) / s))) / 2),
+      };
+    }
+    case "flapper": {
+      // Arrive at the border still moving, then bounce back off the flapper a few times, losing height each time.
+      const { bounces, bounceShare: s } = settings.flapper;
+      const r = Math.max(0, Math.min(room, sliceAngle)) / travel;
+      const approach = (p: number) => easeOutCubic(p * 0.85) / easeOutCubic(0.85);
+      return {
+        travel,
+        curve: t => {
+          if (t <= 1 - s) return (1 + r) * approach(t / (1 - s));
+          const u = (t - (1 - s)) / s;
+          return 1 + r * (1 - u) * (1 - u) * (0.5 + 0.5 * Math.cos(TAU * bounces * u));
+        },
+      };
+    }
+    default:
+      return { travel, curve: easeOutPow(settings.classic.sharpness) };
+  }
+}
+
+function clamp(v: unknown, min: number, max: number, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+}
+
+function sanitizeParams<K extends SpinProfileKind>(kind: K, data: unknown): SpinProfileSettings[K] {
+  const saved = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  const defaults = DEFAULT_SPIN_PROFILE[kind] as Record<string, number>;
+  const params = SPIN_PROFILES[kind].params.map(p => [p.key, clamp(saved[p.key], p.min, p.max, defaults[p.key])]);
+  return Object.fromEntries(params) as SpinProfileSettings[K];
+}
+
+export function sanitizeSpinProfile(data: unknown): SpinProfileSettings {
+  if (!data || typeof data !== "object") return DEFAULT_SPIN_PROFILE;
+  const d = data as Record<string, unknown>;
+  return {
+    kind: PROFILE_KINDS.includes(d.kind as SpinProfileKind) ? (d.kind as SpinProfileKind) : DEFAULT_SPIN_PROFILE.kind,
+    turns: Math.round(clamp(d.turns, 2, 10, DEFAULT_SPIN_PROFILE.turns)),
+    classic: sanitizeParams("classic", d.classic),
+    suspense: sanitizeParams("suspense", d.suspense),
+    overshoot: sanitizeParams("overshoot", d.overshoot),
+    flapper: sanitizeParams("flapper", d.flapper),
+  };
+}
@@ -0,0 +1,22 @@
+import type { Slice } from "@/lib/slices";
+
+/** Per-slice counts for best-of-N runs. */
+
+export type TallyEntry = { slice: Slice; count: number; };
+
+// Most frequent first; equal counts keep the order the slices first came up in.
+export function tallySpins(spins: Slice[]): TallyEntry[] {
+  const byId = new Map<string, TallyEntry>();
+  for (const s of spins) {
+    const entry = byId.get(s.id);
+    if (entry) entry.count++;
+    else byId.set(s.id, { slice: s, count: 1 });
+  }
+  return [...byId.values()].sort((a, b) => b.count - a.count);
+}
+
+// The slices sharing the top count; more than one means a tie.
+export function tallyLeaders(tally: TallyEntry[]): Slice[] {
+  const top = tally[0]?.count ?? 0;
+  return tally.filter(e => e.count === top).map(e => e.slice);
+}
@@ -0,0 +1,70 @@
+import type { Slice } from "@/lib/slices";
+
+/**
+ * Title matching for duplicate detection.
+ *
+ * `normalizeTitle` folds case, accents, punctuation and leading or trailing
+ * articles ("Matrix, The" → "matrix"), then `findSimilarSlice` allows a small
+ * edit distance on top so typos like "Incepton" still match.
+ */
+
+const ARTICLES = ["the", "a", "an"];
+
+export function normalizeTitle(title: string) {
+  let t = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .trim();
+  // "Matrix, The" → "the matrix"
+  const trailing = t.match(/^(.*),\s*(the|a|an)$/);
+  if (trailing) t = `${trailing[2]} ${trailing[1]}`;
+  t = t.replace(/[^\p{L}\p{N}\s]/gu, " ").replace(/\s+/g, " ").trim();
+  const [first, ...rest] = t.split(" ");
+  if (rest.length && ARTICLES.includes(first)) t = rest.join(" ");
+  return t;
+}
+
+// Levenshtein distance, giving up once it is known to exceed `max`.
+export function editDistance(a: string, b: string, max = Infinity) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+// Short titles only match exactly; longer ones tolerate one or two typos.
+function allowedDistance(length: number) {
+  if (length < 5) return 0;
+  if (length < 12) return 1;
+  return 2;
+}
+
+export type TitleMatch = { slice: Slice; exact: boolean; };
+
+export function findSimilarSlice(title: string, slices: Slice[]): TitleMatch | null {
+  const key = normalizeTitle(title);
+  if (!key) return null;
+  let best: { slice: Slice; distance: number; } | null = null;
+  for (const slice of slices) {
+    const other = normalizeTitle(slice.label);
+    if (other === key) return { slice, exact: true };
+    const max = allowedDistance(Math.min(key.length, other.length));
+    // Sequels often differ only by a number ("Saw 2" vs "Saw 3"), so digits must match exactly.
+    if (max === 0 || key.replace(/\D/g, "") !== other.replace(/\D/g, "")) continue;
+    const distance = editDistance(key, other, max);
+    if (distance <= max && (!best || distance < best.distance)) best = { slice, distance };
+  }
+  return best ? { slice: best.slice, exact: false } : null;
+}
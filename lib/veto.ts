@@ -0,0 +1,53 @@
+/**
+ * Veto rounds. After a spin lands, each participant may veto the pick while
+ * the window is open, up to `perPerson` times a session. Vetoed movies are
+ * either removed from the wheel or sit out until the vetoes are reset.
+ */
+
+export type VetoSettings = {
+  enabled: boolean;
+  participants: string[];
+  perPerson: number;
+  windowSecs: number;
+  removeVetoed: boolean;
+};
+
+export const DEFAULT_VETO: VetoSettings = { enabled: false, participants: [], perPerson: 1, windowSecs: 10, removeVetoed: false };
+
+// Vetoes used this session, keyed by participant name.
+export type VetoUsage = Record<string, number>;
+
+export function vetoesLeft(settings: VetoSettings, used: VetoUsage, name: string) {
+  return Math.max(0, settings.perPerson - (used[name] ?? 0));
+}
+
+export function canAnyoneVeto(settings: VetoSettings, used: VetoUsage) {
+  return settings.enabled && settings.windowSecs > 0 && settings.participants.some(p => vetoesLeft(settings, used, p) > 0);
+}
+
+// Trimmed, non-empty and unique regardless of case; the first spelling wins.
+export function cleanParticipants(names: string[]) {
+  const seen = new Set<string>();
+  return names.map(n => n.trim()).filter(n => {
+    const key = n.toLowerCase();
+    if (!n || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function sanitizeVeto(data: unknown): VetoSettings {
+  if (!data || typeof data !== "object") return DEFAULT_VETO;
+  const d = data as Record<string, unknown>;
+  const int = (v: unknown, min: number, max: number, fallback: number) => {
+    const n = Math.round(Number(v));
+    return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+  };
+  return {
+    enabled: d.enabled === true,
+    participants: Array.isArray(d.participants) ? cleanParticipants(d.participants.filter((p): p is string => typeof p === "string")) : [],
+    perPerson: int(d.perPerson, 1, 5, DEFAULT_VETO.perPerson),
+    windowSecs: int(d.windowSecs, 3, 30, DEFAULT_VETO.windowSecs),
+    removeVetoed: d.removeVetoed === true,
+  };
+}
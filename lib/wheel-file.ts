@@ -0,0 +1,231 @@
+import type { DataPool } from "@/lib/data-store";
+import { poolPosters, unpoolPosters } from "@/lib/images";
+import { HEX_COLOR, normalizeWeight, sanitizeMeta, uid, type MovieMeta, type Slice } from "@/lib/slices";
+import type { SavedWheel } from "@/lib/wheel-storage";
+
+/**
+ * The exported wheel file (Presets → Export/Import JSON).
+ *
+ * Files carry `format` and `version` so imports can tell what they are
+ * reading. Plain slice arrays written before the format existed are treated
+ * as version 0 and migrated on import. Validation collects every problem it
+ * finds, with a path to the offending field, instead of stopping at the first.
+ *
+ * Since version 2, posters live once each in `posters` and slices refer to
+ * them by key; version 1 files kept the image on the slice itself.
+ */
+
+export const FILE_FORMAT = "movie-wheel";
+export const FILE_VERSION = 2;
+
+export type WheelFile = {
+  format: typeof FILE_FORMAT;
+  version: number;
+  name: string;
+  createdAt: string;
+  settings: { radius: number; spinSecs: number; removalMode: boolean; };
+  slices: Omit<Slice, "id">[];
+  posters?: DataPool;
+};
+
+export type ImportedWheel = {
+  name: string | null;
+  createdAt: string | null;
+  settings: Partial<WheelFile["settings"]>;
+  slices: Slice[];
+  migratedFrom: number | null;
+};
+
+export type ParseResult =
+  | { ok: true; wheel: ImportedWheel; }
+  | { ok: false; errors: string[]; };
+
+const MAX_REPORTED_ERRORS = 8;
+
+export function serializeWheel(w: SavedWheel): string {
+  const posters: DataPool = {};
+  const file: WheelFile = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    name: w.name,
+    createdAt: new Date().toISOString(),
+    settings: { radius: w.radius, spinSecs: w.spinSecs, removalMode: w.removalMode },
+    slices: poolPosters(w.slices, posters).map(s => ({
+      label: s.label,
+      color: s.color,
+      weight: s.weight,
+      ...(s.notes ? { notes: s.notes } : {}),
+      ...(s.meta ? { meta: s.meta } : {}),
+    })),
+  };
+  if (Object.keys(posters).length) file.posters = posters;
+  return JSON.stringify(file, null, 2);
+}
+
+export function fileNameFor(name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "movie-wheel"}.json`;
+}
+
+function typeOf(v: unknown) {
+  return v === null ? "null" : Array.isArray(v) ? "array" : typeof v;
+}
+
+function validateMeta(data: unknown, at: string, errors: string[]): MovieMeta | undefined {
+  if (data === undefined) return undefined;
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    errors.push(`${at}: expected an object, got ${typeOf(data)}`);
+    return undefined;
+  }
+  const { year, runtime, genres, suggestedBy, streaming, poster } = data as Record<string, unknown>;
+  const before = errors.length;
+  if (year !== undefined && !(Number.isInteger(year) && (year as number) >= 1870 && (year as number) <= 2200)) {
+    errors.push(`${at}.year: expected a year like 1999`);
+  }
+  if (runtime !== undefined && !(Number.isInteger(runtime) && (runtime as number) > 0)) {
+    errors.push(`${at}.runtime: expected a whole number of minutes`);
+  }
+  if (genres !== undefined && !(Array.isArray(genres) && genres.every(g => typeof g === "string"))) {
+    errors.push(`${at}.genres: expected a list of strings`);
+  }
+  if (suggestedBy !== undefined && typeof suggestedBy !== "string") errors.push(`${at}.suggestedBy: expected a string`);
+  if (streaming !== undefined && typeof streaming !== "string") errors.push(`${at}.streaming: expected a string`);
+  if (poster !== undefined && !(typeof poster === "string" && poster.startsWith("data:image/"))) {
+    errors.push(`${at}.poster: expected an image data URL`);
+  }
+  return errors.length === before ? sanitizeMeta(data) : undefined;
+}
+
+function validateSlices(data: unknown, path: string, errors: string[]): Slice[] {
+  if (!Array.isArray(data)) {
+    errors.push(`${path}: expected a list of slices, got ${typeOf(data)}`);
+    return [];
+  }
+  const slices: Slice[] = [];
+  data.forEach((d, i) => {
+    const at = `${path}[${i}]`;
+    if (!d || typeof d !== "object" || Array.isArray(d)) {
+      errors.push(`${at}: expected an object, got ${typeOf(d)}`);
+      return;
+    }
+    const { label, color, weight, notes, meta: rawMeta } = d as Record<string, unknown>;
+    let ok = true;
+    if (typeof label !== "string" || !label.trim()) {
+      errors.push(`${at}.label: expected a non-empty string`);
+      ok = false;
+    }
+    if (typeof color !== "string" || !HEX_COLOR.test(color)) {
+      errors.push(`${at}.color: expected a hex color like #22c55e, got ${JSON.stringify(color) ?? "nothing"}`);
+      ok = false;
+    }
+    if (weight !== undefined && (typeof weight !== "number" || !(weight > 0))) {
+      errors.push(`${at}.weight: expected a positive number`);
+      ok = false;
+    }
+    if (notes !== undefined && typeof notes !== "string") {
+      errors.push(`${at}.notes: expected a string`);
+      ok = false;
+    }
+    const errorsBefore = errors.length;
+    const meta = validateMeta(rawMeta, `${at}.meta`, errors);
+    if (!ok || errors.length > errorsBefore) return;
+    const slice: Slice = { id: uid(), label: (label as string).trim(), color: color as string, weight: normalizeWeight(weight ?? 1) };
+    if (notes) slice.notes = notes as string;
+    if (meta) slice.meta = meta;
+    slices.push(slice);
+  });
+  return slices;
+}
+
+function validateSettings(data: unknown, errors: string[]): ImportedWheel["settings"] {
+  if (data === undefined) return {};
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    errors.push(`settings: expected an object, got ${typeOf(data)}`);
+    return {};
+  }
+  const { radius, spinSecs, removalMode } = data as Record<string, unknown>;
+  const out: ImportedWheel["settings"] = {};
+  if (radius !== undefined) {
+    if (typeof radius === "number" && radius >= 140 && radius <= 320) out.radius = radius;
+    else errors.push("settings.radius: expected a number from 140 to 320");
+  }
+  if (spinSecs !== undefined) {
+    if (typeof spinSecs === "number" && spinSecs >= 2 && spinSecs <= 12) out.spinSecs = spinSecs;
+    else errors.push("settings.spinSecs: expected a number from 2 to 12");
+  }
+  if (removalMode !== undefined) {
+    if (typeof removalMode === "boolean") out.removalMode = removalMode;
+    else errors.push("settings.removalMode: expected true or false");
+  }
+  return out;
+}
+
+function validatePosters(data: unknown, errors: string[]): DataPool {
+  if (data === undefined) return {};
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    errors.push(`posters: expected an object, got ${typeOf(data)}`);
+    return {};
+  }
+  const out: DataPool = {};
+  for (const [key, src] of Object.entries(data)) {
+    if (typeof src === "string" && src.startsWith("data:image/")) out[key] = src;
+    else errors.push(`posters.${key}: expected an image data URL`);
+  }
+  return out;
+}
+
+function finish(wheel: ImportedWheel, errors: string[]): ParseResult {
+  if (errors.length) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return { ok: false, errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${extra} more`] : errors };
+  }
+  if (wheel.slices.length === 0) return { ok: false, errors: ["The file has no slices."] };
+  return { ok: true, wheel };
+}
+
+export function parseWheelFile(text: string): ParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, errors: [`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  const errors: string[] = [];
+
+  // Version 0: the bare slice array older exports wrote.
+  if (Array.isArray(data)) {
+    const slices = validateSlices(data, "slices", errors);
+    return finish({ name: null, createdAt: null, settings: {}, slices, migratedFrom: 0 }, errors);
+  }
+
+  if (!data || typeof data !== "object") {
+    return { ok: false, errors: [`Expected a wheel file, got ${typeOf(data)}`] };
+  }
+  const file = data as Record<string, unknown>;
+  if (file.format !== FILE_FORMAT) {
+    return { ok: false, errors: [`format: expected "${FILE_FORMAT}", got ${JSON.stringify(file.format) ?? "nothing"}`] };
+  }
+  if (typeof file.version !== "number" || !Number.isInteger(file.version) || file.version < 1) {
+    return { ok: false, errors: ["version: expected a whole number"] };
+  }
+  if (file.version > FILE_VERSION) {
+    return { ok: false, errors: [`This file was made by a newer version of the app (format version ${file.version}).`] };
+  }
+
+  if (file.name !== undefined && typeof file.name !== "string") errors.push("name: expected a string");
+  if (file.createdAt !== undefined && (typeof file.createdAt !== "string" || Number.isNaN(Date.parse(file.createdAt)))) {
+    errors.push("createdAt: expected an ISO date string");
+  }
+  const settings = validateSettings(file.settings, errors);
+  const posters = validatePosters(file.posters, errors);
+  const slices = validateSlices(unpoolPosters(file.slices, posters), "slices", errors);
+
+  return finish({
+    name: typeof file.name === "string" ? file.name : null,
+    createdAt: typeof file.createdAt === "string" ? file.createdAt : null,
+    settings,
+    slices,
+    migratedFrom: null,
+  }, errors);
+}
@@ -0,0 +1,177 @@
+/**
+ * Slice labels fitted to their wedges.
+ *
+ * `layoutLabel` shrinks the font from MAX_FONT towards MIN_FONT until the
+ * wrapped title fits the wedge, then keeps as many lines as fit and ends the
+ * last one with an ellipsis. Curved labels follow the rim and fall back to
+ * straight ones when the whole title doesn't fit along the arc. Wedges too thin for even
+ * a few letters show the slice's number, matching the "Wheel as a list" order.
+ */
+
+export type LabelStyle = "straight" | "curved";
+
+export const LABEL_STYLES: LabelStyle[] = ["straight", "curved"];
+
+export type LabelLayout =
+  | { kind: "straight" | "curved"; size: number; lines: string[]; }
+  | { kind: "index"; size: number; text: string; }
+  | { kind: "none"; };
+
+const MAX_FONT = 16;
+const MIN_FONT = 10;
+const MIN_INDEX_FONT = 6;
+const LINE_HEIGHT = 1.15;
+const RIM_PADDING = 8;
+// Labels stay clear of the hub.
+const INNER_RADIUS = 40;
+// Curved lines use this share of the wedge's arc so neighbours don't touch.
+const CURVED_ARC_SHARE = 0.85;
+// A cut-down label shorter than this isn't worth showing; the number is clearer.
+const MIN_CHARS = 3;
+const ELLIPSIS = "…";
+
+export function labelFont(size: number) {
+  return `bold ${size}px ui-sans-serif, system-ui`;
+}
+
+let measurer: CanvasRenderingContext2D | null = null;
+
+// A detached context for measuring text outside of drawing.
+export function measureContext() {
+  measurer ??= document.createElement("canvas").getContext("2d");
+  return measurer;
+}
+
+// Greedy word wrap; `widthFor(line)` gives the room on each line. Words wider than a line get one to themselves.
+function wrapWords(ctx: CanvasRenderingContext2D, text: string, widthFor: (line: number) => number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const w of text.split(/\s+/).filter(Boolean)) {
+    const test = line ? `${line} ${w}` : w;
+    if (line && ctx.measureText(test).width > widthFor(lines.length)) {
+      lines.push(line);
+      line = w;
+    } else {
+      line = test;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// `text` cut to fit `width` with an ellipsis, or null when too little of it would be left.
+function ellipsize(ctx: CanvasRenderingContext2D, text: string, width: number) {
+  if (ctx.measureText(text).width <= width) return text;
+  const chars = Array.from(text);
+  for (let end = chars.length - 1; end >= MIN_CHARS; end--) {
+    const cut = chars.slice(0, end).join("").trimEnd() + ELLIPSIS;
+    if (ctx.measureText(cut).width <= width) return cut;
+  }
+  return null;
+}
+
+// Lines drawn along the wedge's bisector, right-aligned at the rim and centered on the bisector.
+function fitStraight(ctx: CanvasRenderingContext2D, text: string, sweep: number, radius: number): LabelLayout | null {
+  const outer = radius - RIM_PADDING;
+  const maxWidth = outer - INNER_RADIUS;
+  const spread = sweep >= Math.PI ? Infinity : Math.tan(sweep / 2);
+  const rimHalf = Math.sqrt(radius * radius - outer * outer);
+  // Widest a line can be when its middle sits `offset` off the bisector.
+  const roomAt = (offset: number, size: number) => {
+    const half = Math.abs(offset) + size / 2;
+    if (half > rimHalf) return 0;
+    return Math.min(maxWidth, outer - half / spread);
+  };
+  const offsets = (n: number, size: number) => Array.from({ length: n }, (_, k) => (k - (n - 1) / 2) * size * LINE_HEIGHT);
+
+  for (let size = MAX_FONT; size >= MIN_FONT; size--) {
+    ctx.font = labelFont(size);
+    const lines = wrapWords(ctx, text, () => maxWidth);
+    const at = offsets(lines.length, size);
+    if (lines.every((l, k) => ctx.measureText(l).width <= roomAt(at[k], size))) return { kind: "straight", size, lines };
+  }
+
+  // Still too big at the smallest size: keep as many whole lines as fit and cut the last one short.
+  const size = MIN_FONT;
+  ctx.font = labelFont(size);
+  const wrapped = wrapWords(ctx, text, () => maxWidth);
+  for (let n = Math.min(wrapped.length, Math.floor((2 * rimHalf) / (size * LINE_HEIGHT))); n >= 1; n--) {
+    const at = offsets(n, size);
+    const kept = wrapped.slice(0, n - 1);
+    const last = ellipsize(ctx, wrapped.slice(n - 1).join(" "), roomAt(at[n - 1], size));
+    if (last !== null && kept.every((l, k) => ctx.measureText(l).width <= roomAt(at[k], size))) return { kind: "straight", size, lines: [...kept, last] };
+  }
+  return null;
+}
+
+// Lines following the rim, the first one outermost. Only whole titles are curved; ones that need cutting short go straight.
+function fitCurved(ctx: CanvasRenderingContext2D, text: string, sweep: number, radius: number): LabelLayout | null {
+  const outer = radius - RIM_PADDING;
+  const arc = Math.min(sweep, Math.PI) * CURVED_ARC_SHARE;
+  for (let size = MAX_FONT; size >= MIN_FONT; size--) {
+    ctx.font = labelFont(size);
+    const widthFor = (k: number) => (outer - size / 2 - k * size * LINE_HEIGHT) * arc;
+    const maxLines = Math.floor((outer - INNER_RADIUS) / (size * LINE_HEIGHT));
+    if (maxLines < 1) return null;
+    const lines = wrapWords(ctx, text, widthFor);
+    if (lines.length <= maxLines && lines.every((l, k) => ctx.measureText(l).width <= widthFor(k))) return { kind: "curved", size, lines };
+  }
+  return null;
+}
+
+// The slice's 1-based number near the rim, as large as the wedge allows.
+function fitIndex(ctx: CanvasRenderingContext2D, index: number, sweep: number, radius: number): LabelLayout {
+  const text = String(index + 1);
+  const outer = radius - RIM_PADDING;
+  for (let size = MIN_FONT + 2; size >= MIN_INDEX_FONT; size--) {
+    ctx.font = labelFont(size);
+    const inner = outer - ctx.measureText(text).width;
+    if (sweep >= Math.PI || inner * Math.tan(sweep / 2) >= size / 2) return { kind: "index", size, text };
+  }
+  return { kind: "none" };
+}
+
+export function layoutLabel(ctx: CanvasRenderingContext2D, text: string, index: number, sweep: number, radius: number, style: LabelStyle): LabelLayout {
+  return (style === "curved" ? fitCurved(ctx, text, sweep, radius) : null)
+    ?? fitStraight(ctx, text, sweep, radius)
+    ?? fitIndex(ctx, index, sweep, radius);
+}
+
+// Draws one letter at a time along a circle of radius `r`, centered on angle 0, tops facing out.
+function fillArcText(ctx: CanvasRenderingContext2D, text: string, r: number) {
+  const chars = Array.from(text);
+  const widths = chars.map(c => ctx.measureText(c).width);
+  let angle = -widths.reduce((a, b) => a + b, 0) / r / 2;
+  chars.forEach((c, i) => {
+    ctx.save();
+    ctx.rotate(angle + widths[i] / r / 2);
+    ctx.translate(r, 0);
+    ctx.rotate(Math.PI / 2);
+    ctx.fillText(c, 0, 0);
+    ctx.restore();
+    angle += widths[i] / r;
+  });
+}
+
+// Draws a label laid out by `layoutLabel` in the wedge centered on `mid`. The caller sets the fill style.
+export function drawLabel(ctx: CanvasRenderingContext2D, layout: LabelLayout, mid: number, radius: number) {
+  if (layout.kind === "none") return;
+  const outer = radius - RIM_PADDING;
+  ctx.save();
+  ctx.rotate(mid);
+  ctx.font = labelFont(layout.size);
+  ctx.textBaseline = "middle";
+  if (layout.kind === "index") {
+    ctx.textAlign = "right";
+    ctx.fillText(layout.text, outer, 0);
+  } else if (layout.kind === "straight") {
+    ctx.textAlign = "right";
+    const lh = layout.size * LINE_HEIGHT;
+    layout.lines.forEach((l, k) => ctx.fillText(l, outer, (k - (layout.lines.length - 1) / 2) * lh));
+  } else {
+    ctx.textAlign = "center";
+    const lh = layout.size * LINE_HEIGHT;
+    layout.lines.forEach((l, k) => fillArcText(ctx, l, outer - layout.size / 2 - k * lh));
+  }
+  ctx.restore();
+}
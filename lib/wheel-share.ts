@@ -0,0 +1,130 @@
+import { sanitizeSlices, type MovieMeta } from "@/lib/slices";
+import type { SliceFilter } from "@/lib/slice-filter";
+import type { SpinProfileSettings } from "@/lib/spin-profiles";
+import type { VetoSettings } from "@/lib/veto";
+import type { LabelStyle } from "@/lib/wheel-labels";
+import { sanitizeWheel, type SavedWheel } from "@/lib/wheel-storage";
+
+/**
+ * Shareable wheel links.
+ *
+ * A wheel is packed into a compact JSON tuple form, deflated with the
+ * browser's CompressionStream and base64url-encoded into the URL hash
+ * (`#w=...`). The hash never reaches the server, so long lists are fine.
+ * Version 1 links carried only the slices and the basic settings; they still
+ * open, with defaults for the rest.
+ */
+
+const HASH_PARAM = "w";
+const SHARE_VERSION = 2;
+
+type ShareSlice = [string, string, number, Omit<MovieMeta, "poster">?, string?];
+
+type SharePayload = {
+  v: number;
+  n: string;
+  // [label, color, weight, details, notes]. Posters are left out to keep links short.
+  s: ShareSlice[];
+  r: number;
+  d: number;
+  m: boolean;
+  f: SliceFilter;
+  p: number;
+  b: number;
+  x: VetoSettings;
+  k: SpinProfileSettings;
+  l: LabelStyle;
+};
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+async function pipe(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+export async function encodeWheel(w: SavedWheel): Promise<string> {
+  const payload: SharePayload = {
+    v: SHARE_VERSION,
+    n: w.name,
+    s: w.slices.map(s => {
+      const details: Omit<MovieMeta, "poster"> = { ...s.meta };
+      delete (details as MovieMeta).poster;
+      const t: ShareSlice = [s.label, s.color, s.weight];
+      if (Object.keys(details).length || s.notes) t.push(details);
+      if (s.notes) t.push(s.notes);
+      return t;
+    }),
+    r: w.radius,
+    d: w.spinSecs,
+    m: w.removalMode,
+    f: w.filter,
+    p: w.roundPauseSecs,
+    b: w.bestOfSpins,
+    x: w.veto,
+    k: w.spinProfile,
+    l: w.labelStyle,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await pipe(json, new CompressionStream("deflate-raw")));
+}
+
+// Returns a fresh library entry (new ids) or null when the string isn't a valid share.
+export async function decodeWheel(encoded: string): Promise<SavedWheel | null> {
+  try {
+    const bytes = await pipe(fromBase64Url(encoded), new DecompressionStream("deflate-raw"));
+    const p = JSON.parse(new TextDecoder().decode(bytes)) as Partial<SharePayload>;
+    if ((p.v !== 1 && p.v !== SHARE_VERSION) || !Array.isArray(p.s)) return null;
+    const slices = sanitizeSlices(p.s.map(t => (Array.isArray(t) ? { label: t[0], color: t[1], weight: t[2], meta: t[3], notes: t[4] } : null)));
+    if (!slices) return null;
+    // The same checks as a saved wheel; anything missing or invalid gets its default.
+    return sanitizeWheel({
+      name: typeof p.n === "string" && p.n.trim() ? p.n : "Shared wheel",
+      slices,
+      radius: p.r,
+      spinSecs: p.d,
+      removalMode: p.m,
+      filter: p.f,
+      roundPauseSecs: p.p,
+      bestOfSpins: p.b,
+      veto: p.x,
+      spinProfile: p.k,
+      labelStyle: p.l,
+    }, 0);
+  } catch (e) {
+    console.error("Error decoding shared wheel:", e);
+    return null;
+  }
+}
+
+export function readShareHash(): string | null {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get(HASH_PARAM);
+}
+
+export function clearShareHash() {
+  const url = new URL(window.location.href);
+  url.hash = "";
+  window.history.replaceState(null, "", url);
+}
+
+export async function buildShareUrl(w: SavedWheel) {
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.hash = `${HASH_PARAM}=${await encodeWheel(w)}`;
+  return url.toString();
+}
@@ -0,0 +1,343 @@
+import { forgetKeys, poolData, pruneData, readStoredData, storeData, unstoredData, type DataPool } from "@/lib/data-store";
+import { forgetPosters, poolPosters, unpoolPosters } from "@/lib/images";
+import { sanitizePalettes, type Palette } from "@/lib/palettes";
+import { sanitizeSlices, uid, type Slice } from "@/lib/slices";
+import { EMPTY_FILTER, sanitizeFilter, type SliceFilter } from "@/lib/slice-filter";
+import { SOUND_PACK_IDS, sanitizeCustomSounds, type CustomSounds, type SoundPackId } from "@/lib/sound-packs";
+import { DEFAULT_SPIN_PROFILE, sanitizeSpinProfile, type SpinProfileSettings } from "@/lib/spin-profiles";
+import { DEFAULT_VETO, sanitizeVeto, type VetoSettings } from "@/lib/veto";
+import { LABEL_STYLES, type LabelStyle } from "@/lib/wheel-labels";
+
+/**
+ * Versioned localStorage persistence for the wheel.
+ *
+ * Everything lives under a single key as `{ version, data }`. When the stored
+ * shape changes, bump STORAGE_VERSION and add a step to `migrations` that turns
+ * version N-1 data into version N; `loadWheelState` runs the chain in order.
+ * A new field with a default needs neither: `sanitize` fills in whatever is
+ * missing. Older versions that only did that keep an `unchanged` step so
+ * version numbers never go down.
+ *
+ * Posters and uploaded sounds are kept in IndexedDB (see data-store) once
+ * each, keyed by content; slices (in wheels and history alike) and
+ * `customSounds` hold the key instead of the file. Without IndexedDB they fall
+ * back to a `pool` inside the envelope.
+ */
+
+export const STORAGE_KEY = "movieWheel.state";
+export const STORAGE_VERSION = 13;
+
+// Pre-versioning keys, only the sound preferences were ever saved.
+const LEGACY_MUTED_KEY = "movieWheel.sound.muted";
+const LEGACY_VOLUME_KEY = "movieWheel.sound.volume";
+
+// One named wheel in the library.
+export type SavedWheel = {
+  id: string;
+  name: string;
+  slices: Slice[];
+  radius: number;
+  spinSecs: number;
+  removalMode: boolean;
+  filter: SliceFilter;
+  roundPauseSecs: number;
+  bestOfSpins: number;
+  veto: VetoSettings;
+  spinProfile: SpinProfileSettings;
+  labelStyle: LabelStyle;
+};
+
+// One finished spin. `slice` keeps the landed slice so a removal can be undone later.
+// Best-of runs are recorded once, for the overall winner, with how often each slice came up.
+// `vetoedBy` is set when a participant vetoed the pick.
+export type SpinRecord = {
+  id: string;
+  at: number;
+  wheelName: string;
+  label: string;
+  color: string;
+  sliceCount: number;
+  durationMs: number;
+  removed: boolean;
+  slice: Slice;
+  tally?: { label: string; color: string; count: number; }[];
+  vetoedBy?: string;
+};
+
+export type WheelState = {
+  wheels: SavedWheel[];
+  activeId: string;
+  history: SpinRecord[];
+  muted: boolean;
+  volume: number;
+  // User-made palettes; the built-in ones aren't stored.
+  palettes: Palette[];
+  paletteId: string;
+  soundPack: SoundPackId;
+  customSounds: CustomSounds;
+};
+
+export const DEFAULT_WHEEL_NAME = "My wheel";
+export const HISTORY_LIMIT = 200;
+
+type Envelope = { version: number; data: unknown; };
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const unchanged: Migration = data => data;
+
+// migrations[n] upgrades version n data to version n + 1.
+const migrations: Record<number, Migration> = {
+  // 0: the legacy sound keys, already gathered into an object by readLegacy().
+  0: data => data,
+  // 1: a single wheel stored flat next to the sound settings.
+  1: ({ slices, radius, spinSecs, removalMode, muted, volume }) => {
+    if (slices === undefined) return { muted, volume };
+    const id = uid();
+    return { wheels: [{ id, name: DEFAULT_WHEEL_NAME, slices, radius, spinSecs, removalMode }], activeId: id, muted, volume };
+  },
+  // 2: no spin history yet.
+  2: data => ({ ...data, history: [] }),
+  // 3–9: settings were added that sanitize fills in when missing (filter, tournament pause,
+  // best-of spins, veto, spin profile, label style, palettes).
+  3: unchanged,
+  4: unchanged,
+  5: unchanged,
+  6: unchanged,
+  7: unchanged,
+  8: unchanged,
+  9: unchanged,
+  // 10: posters were stored inline on every slice, which still loads as is.
+  10: unchanged,
+  // 11: sound packs were added, likewise filled in by sanitize.
+  11: unchanged,
+  // 12: pooled posters sat in the envelope as `posters`, which inflate still reads.
+  12: unchanged,
+};
+
+function readLegacy(): Envelope | null {
+  const m = localStorage.getItem(LEGACY_MUTED_KEY);
+  const v = localStorage.getItem(LEGACY_VOLUME_KEY);
+  if (m === null && v === null) return null;
+  const data: Record<string, unknown> = {};
+  if (m !== null) data.muted = m === "true";
+  if (v !== null) data.volume = Number(v);
+  return { version: 0, data };
+}
+
+function migrate(envelope: Envelope): Record<string, unknown> | null {
+  let { version } = envelope;
+  let data = envelope.data;
+  if (!data || typeof data !== "object") return null;
+  if (version > STORAGE_VERSION) return null;
+  while (version < STORAGE_VERSION) {
+    const step = migrations[version];
+    if (!step) return null;
+    data = step(data as Record<string, unknown>);
+    version++;
+  }
+  return data as Record<string, unknown>;
+}
+
+function clampNumber(v: unknown, min: number, max: number) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : undefined;
+}
+
+export function createWheel(name: string, slices: Slice[] = []): SavedWheel {
+  return { id: uid(), name, slices, radius: 320, spinSecs: 5, removalMode: false, filter: EMPTY_FILTER, roundPauseSecs: 2, bestOfSpins: 3, veto: DEFAULT_VETO, spinProfile: DEFAULT_SPIN_PROFILE, labelStyle: "straight" };
+}
+
+export function sanitizeWheel(data: unknown, i: number): SavedWheel | null {
+  if (!data || typeof data !== "object") return null;
+  const w = data as Record<string, unknown>;
+  const base = createWheel(typeof w.name === "string" && w.name.trim() ? w.name : `Wheel ${i + 1}`, sanitizeSlices(w.slices) ?? []);
+  if (typeof w.id === "string" && w.id) base.id = w.id;
+  base.radius = clampNumber(w.radius, 140, 320) ?? base.radius;
+  base.spinSecs = clampNumber(w.spinSecs, 2, 12) ?? base.spinSecs;
+  if (typeof w.removalMode === "boolean") base.removalMode = w.removalMode;
+  base.filter = sanitizeFilter(w.filter);
+  base.roundPauseSecs = clampNumber(w.roundPauseSecs, 0, 10) ?? base.roundPauseSecs;
+  base.bestOfSpins = Math.round(clampNumber(w.bestOfSpins, 2, 15) ?? base.bestOfSpins);
+  base.veto = sanitizeVeto(w.veto);
+  base.spinProfile = sanitizeSpinProfile(w.spinProfile);
+  if (LABEL_STYLES.includes(w.labelStyle as LabelStyle)) base.labelStyle = w.labelStyle as LabelStyle;
+  return base;
+}
+
+function sanitizeRecord(data: unknown): SpinRecord | null {
+  if (!data || typeof data !== "object") return null;
+  const r = data as Record<string, unknown>;
+  const [slice] = sanitizeSlices([r.slice]) ?? [];
+  if (typeof r.at !== "number" || typeof r.label !== "string" || !slice) return null;
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : uid(),
+    at: r.at,
+    wheelName: typeof r.wheelName === "string" ? r.wheelName : "",
+    label: r.label,
+    color: typeof r.color === "string" ? r.color : slice.color,
+    sliceCount: Number(r.sliceCount) || 0,
+    durationMs: Number(r.durationMs) || 0,
+    removed: r.removed === true,
+    slice,
+    ...(Array.isArray(r.tally) ? { tally: sanitizeTally(r.tally) } : {}),
+    ...(typeof r.vetoedBy === "string" && r.vetoedBy ? { vetoedBy: r.vetoedBy } : {}),
+  };
+}
+
+function sanitizeTally(data: unknown[]): NonNullable<SpinRecord["tally"]> {
+  return data.flatMap(d => {
+    if (!d || typeof d !== "object") return [];
+    const { label, color, count } = d as Record<string, unknown>;
+    if (typeof label !== "string" || typeof color !== "string" || !Number.isInteger(count)) return [];
+    return [{ label, color, count: count as number }];
+  });
+}
+
+// Puts pooled files, from IndexedDB or the envelope, back where they are referenced.
+function inflate(data: Record<string, unknown>, stored: DataPool): Record<string, unknown> {
+  const { pool, posters: legacy, ...rest } = data;
+  const inline = pool ?? legacy;
+  const files: DataPool = inline && typeof inline === "object" ? { ...stored, ...inline } : stored;
+  if (Array.isArray(rest.wheels)) {
+    rest.wheels = rest.wheels.map(w => (w && typeof w === "object" ? { ...w, slices: unpoolPosters(w.slices, files) } : w));
+  }
+  if (Array.isArray(rest.history)) {
+    rest.history = rest.history.map(r => (r && typeof r === "object" ? { ...r, slice: (unpoolPosters([r.slice], files) as unknown[])[0] } : r));
+  }
+  if (rest.customSounds && typeof rest.customSounds === "object") {
+    rest.customSounds = Object.fromEntries(Object.entries(rest.customSounds).map(([kind, key]) => [kind, files[key] ?? key]));
+  }
+  return rest;
+}
+
+// Keep only the fields that survive validation so a partly broken save still restores what it can.
+function sanitize(data: Record<string, unknown>): Partial<WheelState> {
+  const out: Partial<WheelState> = {};
+  if (Array.isArray(data.wheels)) {
+    const wheels = data.wheels.map(sanitizeWheel).filter((w): w is SavedWheel => w !== null);
+    if (wheels.length) {
+      out.wheels = wheels;
+      out.activeId = wheels.some(w => w.id === data.activeId) ? String(data.activeId) : wheels[0].id;
+    }
+  }
+  if (Array.isArray(data.history)) {
+    out.history = data.history.map(sanitizeRecord).filter((r): r is SpinRecord => r !== null).slice(0, HISTORY_LIMIT);
+  }
+  if (typeof data.muted === "boolean") out.muted = data.muted;
+  const volume = clampNumber(data.volume, 0, 1);
+  if (volume !== undefined) out.volume = volume;
+  if (Array.isArray(data.palettes)) out.palettes = sanitizePalettes(data.palettes);
+  if (typeof data.paletteId === "string" && data.paletteId) out.paletteId = data.paletteId;
+  if (SOUND_PACK_IDS.includes(data.soundPack as SoundPackId)) out.soundPack = data.soundPack as SoundPackId;
+  if (data.customSounds !== undefined) out.customSounds = sanitizeCustomSounds(data.customSounds);
+  return out;
+}
+
+// True when the store was written by a newer build; this one mustn't overwrite it with less.
+export function savedByNewerVersion() {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw !== null && Number((JSON.parse(raw) as Envelope).version) > STORAGE_VERSION;
+  } catch {
+    return false;
+  }
+}
+
+export async function loadWheelState(): Promise<Partial<WheelState> | null> {
+  let stored: DataPool = {};
+  try {
+    stored = await readStoredData();
+  } catch (e) {
+    console.error("Error reading saved posters and sounds:", e);
+  }
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const envelope = raw ? (JSON.parse(raw) as Envelope) : readLegacy();
+    if (!envelope || typeof envelope.version !== "number") return null;
+    const data = migrate(envelope);
+    return data ? sanitize(inflate(data, stored)) : null;
+  } catch (e) {
+    console.error("Error loading wheel state:", e);
+    return null;
+  }
+}
+
+let saving: Promise<unknown> = Promise.resolve();
+// Counts saves, so a queued one that a newer save (or a flush on page close) overtook doesn't write older state.
+let latestSave = 0;
+
+/**
+ * Resolves to false when the state couldn't be saved, typically because
+ * storage is full. Saves run one at a time, so one never prunes a poster that
+ * a newer save has just stored.
+ */
+export function saveWheelState(state: WheelState): Promise<boolean> {
+  const id = ++latestSave;
+  const next = saving.then(() => writeWheelState(state, id));
+  saving = next;
+  return next;
+}
+
+/**
+ * Saves right away, for when the page is closing and IndexedDB work may never
+ * finish. Files that aren't stored yet go inline in `pool`; the next regular
+ * save moves them over.
+ */
+export function saveWheelStateNow(state: WheelState) {
+  latestSave++;
+  try {
+    const { data, pool } = pack(state);
+    const unstored = unstoredData(pool);
+    if (Object.keys(unstored).length) data.pool = unstored;
+    writeEnvelope(data);
+    return true;
+  } catch (e) {
+    console.error("Error saving wheel state:", e);
+    return false;
+  }
+}
+
+// The state with posters and sounds swapped for their keys in the returned pool.
+function pack(state: WheelState) {
+  const pool: DataPool = {};
+  const data: Record<string, unknown> = {
+    ...state,
+    wheels: state.wheels.map(w => ({ ...w, slices: poolPosters(w.slices, pool) })),
+    history: state.history.map(r => ({ ...r, slice: poolPosters([r.slice], pool)[0] })),
+    customSounds: Object.fromEntries(Object.entries(state.customSounds).map(([kind, src]) => [kind, poolData(src, pool) ?? src])),
+  };
+  return { data, pool };
+}
+
+function writeEnvelope(data: Record<string, unknown>) {
+  const envelope: Envelope = { version: STORAGE_VERSION, data };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+  localStorage.removeItem(LEGACY_MUTED_KEY);
+  localStorage.removeItem(LEGACY_VOLUME_KEY);
+}
+
+async function writeWheelState(state: WheelState, id: number) {
+  try {
+    const { data, pool } = pack(state);
+    // Files go first so the saved state never refers to one that isn't there.
+    let inline = false;
+    try {
+      await storeData(pool);
+    } catch (e) {
+      console.error("Error saving posters and sounds, keeping them with the wheels:", e);
+      inline = true;
+      data.pool = pool;
+    }
+    if (id !== latestSave) return true;
+    writeEnvelope(data);
+    const kept = new Set(Object.values(pool));
+    forgetKeys(kept);
+    forgetPosters(kept);
+    if (!inline) await pruneData(pool).catch(e => console.error("Error removing unused posters and sounds:", e));
+    return true;
+  } catch (e) {
+    console.error("Error saving wheel state:", e);
+    return false;
+  }
+}